@@ -8,7 +8,10 @@ import {
   LanguageClientOptions,
   ServerOptions,
   TransportKind,
-  RevealOutputChannelOn
+  RevealOutputChannelOn,
+  ProposedFeatures,
+  RequestType,
+  WorkspaceEdit
 } from 'vscode-languageclient';
 import { getGeneratedGrammar } from './grammar';
 import {
@@ -34,6 +37,21 @@ const EMPTY_ELEMENTS: string[] = [
   'wbr'
 ];
 
+// `workspace/willRenameFiles` is not in vscode-languageclient 3.5 yet
+interface FileRename {
+  oldUri: string;
+  newUri: string;
+}
+const willRenameFilesRequest = new RequestType<{ files: FileRename[] }, WorkspaceEdit | null, void, void>(
+  'workspace/willRenameFiles'
+);
+
+// the event of `workspace.onWillRenameFiles` in newer versions of vscode
+interface FileWillRenameEvent {
+  files: ReadonlyArray<{ oldUri: vscode.Uri; newUri: vscode.Uri }>;
+  waitUntil(thenable: Thenable<vscode.WorkspaceEdit>): void;
+}
+
 export function activate(context: ExtensionContext) {
   /**
    * Custom Block Grammar generation command
@@ -88,8 +106,23 @@ export function activate(context: ExtensionContext) {
 
   // Create the language client and start the client.
   const client = new LanguageClient('vue', 'Vue Language Server', serverOptions, clientOptions);
+  // send every folder of a multi-root workspace, and changes to them
+  client.registerFeature(new ProposedFeatures.WorkspaceFoldersFeature(client));
   const disposable = client.start();
   context.subscriptions.push(disposable);
+
+  // `onWillRenameFiles` is not in the vscode API of the supported engine, so it is used where it is available
+  const { onWillRenameFiles } = workspace as { onWillRenameFiles?: vscode.Event<FileWillRenameEvent> };
+  if (onWillRenameFiles) {
+    context.subscriptions.push(onWillRenameFiles(event => {
+      const files = event.files.map(f => ({ oldUri: f.oldUri.toString(), newUri: f.newUri.toString() }));
+      event.waitUntil(
+        client.onReady()
+          .then(() => client.sendRequest(willRenameFilesRequest, { files }))
+          .then(edit => client.protocol2CodeConverter.asWorkspaceEdit(edit) || new vscode.WorkspaceEdit())
+      );
+    }));
+  }
   const isDecoratorEnabled = workspace.getConfiguration().get<boolean>('vetur.colorDecorators.enable');
 
   if (isDecoratorEnabled) {
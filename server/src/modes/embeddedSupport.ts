@@ -1,3 +1,4 @@
+import * as path from 'path';
 import { removeQuotes } from '../utils/strings';
 import { createScanner } from './template/parser/htmlScanner';
 import { TextDocument, Position, Range } from 'vscode-languageserver-types';
@@ -8,6 +9,19 @@ export interface LanguageRange extends Range {
   attributeValue?: boolean;
 }
 
+/**
+ * A block whose content is in another file, e.g. `<style src="./button.css"></style>`
+ */
+export interface ExternalSource {
+  type: 'script' | 'style';
+  languageId: string;
+  // path in the `src` attribute, relative to the .vue file
+  src: string;
+  // offsets of the path in the .vue file
+  start: number;
+  end: number;
+}
+
 export interface VueDocumentRegions {
   getEmbeddedDocument(languageId: string): TextDocument;
   getEmbeddedDocumentByType(type: EmbeddedType): TextDocument;
@@ -15,7 +29,7 @@ export interface VueDocumentRegions {
   getLanguageRanges(range: Range): LanguageRange[];
   getLanguageAtPosition(position: Position): string;
   getLanguagesInDocument(): string[];
-  getImportedScripts(): string[];
+  getExternalSources(): ExternalSource[];
 }
 
 type EmbeddedType = 'template' | 'script' | 'style' | 'custom';
@@ -33,6 +47,21 @@ const defaultType: { [type: string]: string } = {
   style: 'css'
 };
 
+const styleLanguageIdRE = /^(sass|scss|less|postcss|stylus)$/;
+
+// languages of `<script src>` and `<style src>` without `lang`
+const languageIdByExtension: { [extension: string]: string } = {
+  '.ts': 'typescript',
+  '.tsx': 'tsx',
+  '.scss': 'scss',
+  '.sass': 'sass',
+  '.less': 'less',
+  '.styl': 'stylus',
+  '.stylus': 'stylus',
+  '.pcss': 'postcss',
+  '.postcss': 'postcss'
+};
+
 export function getDocumentRegions(document: TextDocument): VueDocumentRegions {
   const regions: EmbeddedRegion[] = [];
   const text = document.getText();
@@ -40,14 +69,15 @@ export function getDocumentRegions(document: TextDocument): VueDocumentRegions {
   let lastTagName = '';
   let lastAttributeName = '';
   let languageIdFromType = '';
-  const importedScripts: string[] = [];
+  const externalSources: ExternalSource[] = [];
+  let src: { value: string; start: number; end: number } | undefined;
 
   let token = scanner.scan();
   while (token !== TokenType.EOS) {
     switch (token) {
       case TokenType.Styles:
         regions.push({
-          languageId: /^(sass|scss|less|postcss|stylus)$/.test(languageIdFromType)
+          languageId: styleLanguageIdRE.test(languageIdFromType)
             ? languageIdFromType
             : defaultType['style'],
           start: scanner.getTokenOffset(),
@@ -75,6 +105,21 @@ export function getDocumentRegions(document: TextDocument): VueDocumentRegions {
         }
         lastTagName = tagName;
         lastAttributeName = '';
+        src = undefined;
+        break;
+      case TokenType.StartTagClose:
+      case TokenType.StartTagSelfClose:
+        const type = lastTagName.toLowerCase();
+        if (src && (type === 'script' || type === 'style')) {
+          externalSources.push({
+            type,
+            languageId: getExternalLanguageId(type, languageIdFromType, src.value),
+            src: src.value,
+            start: src.start,
+            end: src.end
+          });
+        }
+        src = undefined;
         break;
       case TokenType.AttributeName:
         lastAttributeName = scanner.getTokenText();
@@ -82,14 +127,11 @@ export function getDocumentRegions(document: TextDocument): VueDocumentRegions {
       case TokenType.AttributeValue:
         if (lastAttributeName === 'lang') {
           languageIdFromType = getLanguageIdFromLangAttr(scanner.getTokenText());
-        } else {
-          if (lastAttributeName === 'src' && lastTagName.toLowerCase() === 'script') {
-            let value = scanner.getTokenText();
-            if (value[0] === "'" || value[0] === '"') {
-              value = value.substr(1, value.length - 1);
-            }
-            importedScripts.push(value);
-          }
+        } else if (lastAttributeName === 'src') {
+          const value = removeQuotes(scanner.getTokenText());
+          const quoteLength = value === scanner.getTokenText() ? 0 : 1;
+          const start = scanner.getTokenOffset() + quoteLength;
+          src = { value, start, end: start + value.length };
         }
         lastAttributeName = '';
         break;
@@ -107,8 +149,8 @@ export function getDocumentRegions(document: TextDocument): VueDocumentRegions {
     getEmbeddedDocument: (languageId: string) => getEmbeddedDocument(document, regions, languageId),
     getEmbeddedDocumentByType: (type: EmbeddedType) => getEmbeddedDocumentByType(document, regions, type),
     getLanguageAtPosition: (position: Position) => getLanguageAtPosition(document, regions, position),
-    getLanguagesInDocument: () => getLanguagesInDocument(document, regions),
-    getImportedScripts: () => importedScripts
+    getLanguagesInDocument: () => getLanguagesInDocument(document, regions, externalSources),
+    getExternalSources: () => externalSources
   };
 }
 
@@ -130,9 +172,14 @@ function scanTemplateRegion(scanner: Scanner, text: string): EmbeddedRegion | nu
       if (token === TokenType.EOS) {
         return null;
       }
-      // forward to endTagStart </
+      // forward to endTagStart </, which ends the region
       scanner.scan();
-      break;
+      return {
+        languageId,
+        start,
+        end: scanner.getTokenOffset(),
+        type: 'template'
+      };
     }
     token = scanner.scan();
     if (token === TokenType.EOS) {
@@ -204,6 +251,14 @@ function getLanguageIdFromLangAttr(lang: string): string {
   return languageIdFromType;
 }
 
+function getExternalLanguageId(type: 'script' | 'style', languageIdFromType: string, src: string): string {
+  const languageId = languageIdFromType || languageIdByExtension[path.extname(src).toLowerCase()] || '';
+  if (type === 'script') {
+    return /^(typescript|tsx)$/.test(languageId) ? languageId : defaultType['script'];
+  }
+  return styleLanguageIdRE.test(languageId) ? languageId : defaultType['style'];
+}
+
 function getLanguageRanges(document: TextDocument, regions: EmbeddedRegion[], range: Range): LanguageRange[] {
   const result: LanguageRange[] = [];
   let currentPos = range ? range.start : Position.create(0, 0);
@@ -244,9 +299,13 @@ function getLanguageRanges(document: TextDocument, regions: EmbeddedRegion[], ra
   return result;
 }
 
-function getLanguagesInDocument(document: TextDocument, regions: EmbeddedRegion[]): string[] {
+function getLanguagesInDocument(
+  document: TextDocument,
+  regions: EmbeddedRegion[],
+  externalSources: ExternalSource[]
+): string[] {
   const result = ['vue'];
-  for (const region of regions) {
+  for (const region of [...regions, ...externalSources]) {
     if (region.languageId && result.indexOf(region.languageId) === -1) {
       result.push(region.languageId);
     }
@@ -268,14 +327,17 @@ function getLanguageAtPosition(document: TextDocument, regions: EmbeddedRegion[]
   return 'vue';
 }
 
+/**
+ * All regions of `languageId`, such as `<style>` and `<style scoped>`, at their offsets in the .vue file.
+ * Text outside of them is replaced by whitespace, keeping line breaks
+ */
 function getEmbeddedDocument(document: TextDocument, contents: EmbeddedRegion[], languageId: string): TextDocument {
   const oldContent = document.getText();
   let result = '';
   for (const c of contents) {
     if (c.languageId === languageId) {
-      result = oldContent.substring(0, c.start).replace(/./g, ' ');
+      result += oldContent.substring(result.length, c.start).replace(/./g, ' ');
       result += oldContent.substring(c.start, c.end);
-      break;
     }
   }
   return TextDocument.create(document.uri, languageId, document.version, result);
@@ -13,7 +13,10 @@ import {
   CompletionList,
   Position,
   FormattingOptions,
-  SymbolInformation
+  SymbolInformation,
+  WorkspaceEdit,
+  Command,
+  CodeActionContext
 } from 'vscode-languageserver-types';
 import {
   Color, ColorInformation, ColorPresentation
@@ -26,8 +29,28 @@ import { getVueMode } from './vue';
 import { getCSSMode, getSCSSMode, getLESSMode, getPostCSSMode } from './style';
 import { getJavascriptMode } from './script/javascript';
 import { getVueHTMLMode } from './template';
+import { getPugMode } from './pug';
 
 import { getStylusMode } from './style/stylus';
+import { getSassMode } from './style/sass';
+
+// Commands of code actions, executed by the server with `workspace/executeCommand`
+export const APPLY_WORKSPACE_EDIT = 'vetur.applyWorkspaceEdit';
+export const APPLY_REFACTOR = 'vetur.applyRefactor';
+export const ORGANIZE_IMPORTS = 'vetur.organizeImports';
+
+export interface RefactorArgs {
+  uri: string;
+  range: Range;
+  refactorName: string;
+  actionName: string;
+}
+
+// a file or directory that is about to be renamed, as in `workspace/willRenameFiles`
+export interface FileRename {
+  oldUri: string;
+  newUri: string;
+}
 
 export interface LanguageMode {
   getId(): string;
@@ -39,9 +62,16 @@ export interface LanguageMode {
   doSignatureHelp?(document: TextDocument, position: Position): SignatureHelp;
   findDocumentHighlight?(document: TextDocument, position: Position): DocumentHighlight[];
   findDocumentSymbols?(document: TextDocument): SymbolInformation[];
+  findWorkspaceSymbols?(query: string): SymbolInformation[];
   findDocumentLinks?(document: TextDocument, documentContext: DocumentContext): DocumentLink[];
   findDefinition?(document: TextDocument, position: Position): Definition;
   findReferences?(document: TextDocument, position: Position): Location[];
+  prepareRename?(document: TextDocument, position: Position): Range | null;
+  doRename?(document: TextDocument, position: Position, newName: string): WorkspaceEdit;
+  getCodeActions?(document: TextDocument, range: Range, context: CodeActionContext): Command[];
+  getRefactorEdits?(document: TextDocument, args: RefactorArgs): WorkspaceEdit;
+  organizeImports?(document: TextDocument): WorkspaceEdit;
+  getFileRenameEdits?(renames: FileRename[], openDocuments: TextDocument[]): WorkspaceEdit;
   format?(document: TextDocument, range: Range, options: FormattingOptions): TextEdit[];
   findDocumentColors?(document: TextDocument): ColorInformation[];
   getColorPresentations?(document: TextDocument, color: Color, range: Range): ColorPresentation[];
@@ -56,6 +86,9 @@ export interface LanguageModes {
   getAllModes(): LanguageMode[];
   getAllModesInDocument(document: TextDocument): LanguageMode[];
   getMode(languageId: string): LanguageMode;
+  onDidChangeProject(listener: () => void): void;
+  onDidAddOrRemoveFiles(listener: () => void): void;
+  whenWatcherReady(): Promise<void>;
   onDocumentRemoved(document: TextDocument): void;
   dispose(): void;
 }
@@ -73,13 +106,15 @@ export function getLanguageModes(workspacePath: string | null | undefined): Lang
 
   const jsMode = getJavascriptMode(documentRegions, workspacePath);
   let modes: { [k: string]: LanguageMode } = {
-    vue: getVueMode(),
+    vue: getVueMode(documentRegions),
     'vue-html': getVueHTMLMode(documentRegions, workspacePath, jsMode),
+    pug: getPugMode(documentRegions, workspacePath, jsMode),
     css: getCSSMode(documentRegions),
     postcss: getPostCSSMode(documentRegions),
     scss: getSCSSMode(documentRegions),
     less: getLESSMode(documentRegions),
     stylus: getStylusMode(documentRegions),
+    sass: getSassMode(documentRegions),
     javascript: jsMode,
     tsx: jsMode,
     typescript: jsMode
@@ -129,6 +164,15 @@ export function getLanguageModes(workspacePath: string | null | undefined): Lang
     getMode(languageId: string): LanguageMode {
       return modes[languageId];
     },
+    onDidChangeProject(listener: () => void) {
+      jsMode.onDidChangeProject(listener);
+    },
+    onDidAddOrRemoveFiles(listener: () => void) {
+      jsMode.onDidAddOrRemoveFiles(listener);
+    },
+    whenWatcherReady() {
+      return jsMode.whenWatcherReady();
+    },
     onDocumentRemoved(document: TextDocument) {
       modelCaches.forEach(mc => mc.onDocumentRemoved(document));
       for (const mode in modes) {
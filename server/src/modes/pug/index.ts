@@ -0,0 +1,58 @@
+import { LanguageModelCache, getLanguageModelCache } from '../languageModelCache';
+import { TextDocument, Position } from 'vscode-languageserver-types';
+import { LanguageMode } from '../languageModes';
+import { VueDocumentRegions } from '../embeddedSupport';
+import { ScriptMode } from '../script/javascript';
+import { getTagProviderSettings, getEnabledTagProviders, getComponentTags } from '../template/tagProviders';
+
+import { doComplete } from './services/pugCompletion';
+import { findDocumentSymbols } from './services/pugSymbols';
+import { doValidation } from './services/pugValidation';
+
+import * as _ from 'lodash';
+
+export function getPugMode(
+  documentRegions: LanguageModelCache<VueDocumentRegions>,
+  workspacePath: string | null | undefined,
+  scriptMode: ScriptMode
+): LanguageMode {
+  let tagProviderSettings = getTagProviderSettings(workspacePath);
+  let enabledTagProviders = getEnabledTagProviders(tagProviderSettings);
+  const embeddedDocuments = getLanguageModelCache<TextDocument>(10, 60, document =>
+    documentRegions.get(document).getEmbeddedDocument('pug')
+  );
+  let config: any = {};
+
+  scriptMode.onDidChangeProject(() => {
+    tagProviderSettings = _.assign(getTagProviderSettings(workspacePath), _.get(config, ['html', 'suggest']));
+    enabledTagProviders = getEnabledTagProviders(tagProviderSettings);
+  });
+
+  return {
+    getId() {
+      return 'pug';
+    },
+    configure(c) {
+      tagProviderSettings = _.assign(tagProviderSettings, c.html.suggest);
+      enabledTagProviders = getEnabledTagProviders(tagProviderSettings);
+      config = c;
+    },
+    doValidation(document: TextDocument) {
+      return doValidation(embeddedDocuments.get(document));
+    },
+    doComplete(document: TextDocument, position: Position) {
+      const components = scriptMode.findComponents(document);
+      const tagProviders = enabledTagProviders.concat(getComponentTags(components));
+      return doComplete(embeddedDocuments.get(document), position, tagProviders);
+    },
+    findDocumentSymbols(document: TextDocument) {
+      return findDocumentSymbols(embeddedDocuments.get(document));
+    },
+    onDocumentRemoved(document: TextDocument) {
+      embeddedDocuments.onDocumentRemoved(document);
+    },
+    dispose() {
+      embeddedDocuments.dispose();
+    }
+  };
+}
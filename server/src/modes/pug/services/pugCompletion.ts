@@ -0,0 +1,220 @@
+import {
+  TextDocument,
+  Position,
+  CompletionList,
+  CompletionItemKind,
+  Range,
+  TextEdit,
+  InsertTextFormat
+} from 'vscode-languageserver-types';
+import { IHTMLTagProvider } from '../../template/tagProviders';
+
+interface PugContext {
+  kind: 'tag' | 'attributeName' | 'attributeValue' | 'none';
+  tag: string;
+  attribute: string;
+  // start of the word to complete
+  start: number;
+}
+
+export function doComplete(
+  document: TextDocument,
+  position: Position,
+  tagProviders: IHTMLTagProvider[]
+): CompletionList {
+  const result: CompletionList = {
+    isIncomplete: false,
+    items: []
+  };
+
+  const text = document.getText();
+  const offset = document.offsetAt(position);
+  const context = getPugContext(text, offset);
+
+  function getReplaceRange(start: number, end: number): Range {
+    return { start: document.positionAt(start), end: document.positionAt(end) };
+  }
+
+  function collectTagSuggestions(start: number) {
+    const range = getReplaceRange(start, getWordEnd(text, offset));
+    tagProviders.forEach(provider => {
+      const priority = provider.priority;
+      provider.collectTags((tag, label) => {
+        result.items.push({
+          label: tag,
+          kind: CompletionItemKind.Property,
+          documentation: label,
+          textEdit: TextEdit.replace(range, tag),
+          sortText: priority + tag,
+          insertTextFormat: InsertTextFormat.PlainText
+        });
+      });
+    });
+  }
+
+  function collectAttributeNameSuggestions(tag: string, nameStart: number) {
+    const filterPrefix = /^[:@]/.test(text[nameStart]) ? text[nameStart] : '';
+    const start = filterPrefix ? nameStart + 1 : nameStart;
+    const nameEnd = getWordEnd(text, offset);
+    const range = getReplaceRange(start, nameEnd);
+    const value = text[nameEnd] === '=' ? '' : '="$1"';
+    tagProviders.forEach(provider => {
+      const priority = provider.priority;
+      provider.collectAttributes(tag.toLowerCase(), (attribute, type, documentation) => {
+        if ((type === 'event' && filterPrefix !== '@') || (type !== 'event' && filterPrefix === '@')) {
+          return;
+        }
+        let codeSnippet = attribute;
+        if (type !== 'v' && value.length) {
+          codeSnippet = codeSnippet + value;
+        }
+        result.items.push({
+          label: attribute,
+          kind: type === 'event' ? CompletionItemKind.Function : CompletionItemKind.Value,
+          textEdit: TextEdit.replace(range, codeSnippet),
+          insertTextFormat: InsertTextFormat.Snippet,
+          sortText: priority + attribute,
+          documentation
+        });
+      });
+    });
+  }
+
+  function collectAttributeValueSuggestions(tag: string, attribute: string, valueStart: number) {
+    const range = getReplaceRange(valueStart, getWordEnd(text, offset));
+    tagProviders.forEach(provider => {
+      provider.collectValues(tag.toLowerCase(), attribute.toLowerCase(), value => {
+        result.items.push({
+          label: value,
+          kind: CompletionItemKind.Unit,
+          textEdit: TextEdit.replace(range, value),
+          insertTextFormat: InsertTextFormat.PlainText
+        });
+      });
+    });
+  }
+
+  switch (context.kind) {
+    case 'tag':
+      collectTagSuggestions(context.start);
+      break;
+    case 'attributeName':
+      collectAttributeNameSuggestions(context.tag, context.start);
+      break;
+    case 'attributeValue':
+      collectAttributeValueSuggestions(context.tag, context.attribute, context.start);
+      break;
+  }
+  return result;
+}
+
+const lineHeadRE = /^([ \t]*)([\w-]*)((?:[.#][\w-]+)*)/;
+
+/**
+ * Find out what is being typed at `offset`.
+ * Lines are scanned from the start since attributes in parentheses can span lines.
+ */
+export function getPugContext(text: string, offset: number): PugContext {
+  const none: PugContext = { kind: 'none', tag: '', attribute: '', start: offset };
+  let pos = 0;
+  while (pos <= offset) {
+    const lineEnd = getLineEnd(text, pos);
+    const head = lineHeadRE.exec(text.slice(pos, lineEnd))!;
+    const nameStart = pos + head[1].length;
+    const nameEnd = nameStart + head[2].length;
+    const headEnd = nameEnd + head[3].length;
+    if (nameStart <= offset && offset <= nameEnd) {
+      return { kind: 'tag', tag: '', attribute: '', start: nameStart };
+    }
+    if (text[headEnd] !== '(') {
+      if (offset <= lineEnd) {
+        return none;
+      }
+      pos = lineEnd + 1;
+      continue;
+    }
+
+    const tag = head[2] || 'div';
+    const attributes = scanAttributes(text, headEnd + 1, offset);
+    if (attributes.end === undefined) {
+      return { ...attributes.context, tag };
+    }
+    const attributesLineEnd = getLineEnd(text, attributes.end);
+    if (offset <= attributesLineEnd) {
+      return none;
+    }
+    pos = attributesLineEnd + 1;
+  }
+  return none;
+}
+
+/**
+ * Scan attributes after `(` until the closing `)`.
+ * Returns the end of attributes, or the context at `offset` when it is inside the attributes.
+ */
+function scanAttributes(text: string, start: number, offset: number): { end?: number; context: PugContext } {
+  let nameStart = -1;
+  let attribute = '';
+  let inValue = false;
+  let quote = '';
+  let valueStart = -1;
+  let depth = 0;
+  for (let pos = start; pos <= text.length; pos++) {
+    if (pos === offset) {
+      let context: PugContext;
+      if (quote) {
+        context = { kind: 'attributeValue', tag: '', attribute, start: valueStart };
+      } else if (inValue) {
+        context = { kind: 'none', tag: '', attribute, start: offset };
+      } else {
+        context = { kind: 'attributeName', tag: '', attribute: '', start: nameStart >= 0 ? nameStart : offset };
+      }
+      return { context };
+    }
+    const ch = text[pos];
+    if (quote) {
+      if (ch === quote && text[pos - 1] !== '\\') {
+        quote = '';
+        if (depth === 0) {
+          inValue = false;
+        }
+      }
+    } else if (inValue) {
+      if (ch === '"' || ch === "'" || ch === '`') {
+        quote = ch;
+        valueStart = pos + 1;
+      } else if ('([{'.includes(ch)) {
+        depth++;
+      } else if (depth > 0 && ')]}'.includes(ch)) {
+        depth--;
+      } else if (ch === ')') {
+        return { end: pos, context: { kind: 'none', tag: '', attribute: '', start: offset } };
+      } else if (depth === 0 && /[,\s]/.test(ch)) {
+        inValue = false;
+      }
+    } else if (ch === ')') {
+      return { end: pos, context: { kind: 'none', tag: '', attribute: '', start: offset } };
+    } else if (ch === '=') {
+      attribute = nameStart >= 0 ? text.slice(nameStart, text[pos - 1] === '!' ? pos - 1 : pos) : '';
+      inValue = true;
+      nameStart = -1;
+    } else if (/[,\s]/.test(ch)) {
+      nameStart = -1;
+    } else if (nameStart < 0) {
+      nameStart = pos;
+    }
+  }
+  return { end: text.length, context: { kind: 'none', tag: '', attribute: '', start: offset } };
+}
+
+function getLineEnd(text: string, pos: number) {
+  const lineEnd = text.indexOf('\n', pos);
+  return lineEnd < 0 ? text.length : lineEnd;
+}
+
+function getWordEnd(text: string, offset: number) {
+  while (offset < text.length && /[\w-:@.]/.test(text[offset])) {
+    offset++;
+  }
+  return offset;
+}
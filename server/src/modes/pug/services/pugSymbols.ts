@@ -0,0 +1,127 @@
+import { TextDocument, Location, Range, SymbolInformation, SymbolKind, Position } from 'vscode-languageserver-types';
+import * as lex from 'pug-lexer';
+
+interface Element {
+  symbol: SymbolInformation;
+  // name is complete once attributes or content follow the tag
+  named: boolean;
+}
+
+export function findDocumentSymbols(document: TextDocument): SymbolInformation[] {
+  let tokens: lex.Token[];
+  try {
+    tokens = lex(document.getText(), { filename: document.uri });
+  } catch (e) {
+    return [];
+  }
+
+  const symbols: SymbolInformation[] = [];
+  // elements of lines enclosing the current one, `undefined` for lines without a tag
+  const parents: (Element | undefined)[] = [];
+  let current: Element | undefined;
+  let lastEnd = Position.create(0, 0);
+
+  function getContainerName() {
+    for (let i = parents.length - 1; i >= 0; i--) {
+      const parent = parents[i];
+      if (parent) {
+        return parent.symbol.name;
+      }
+    }
+    return '';
+  }
+
+  function open(tag: string, start: lex.Position) {
+    const symbol: SymbolInformation = {
+      name: tag,
+      location: Location.create(document.uri, Range.create(toPosition(start), toPosition(start))),
+      containerName: getContainerName(),
+      kind: SymbolKind.Field
+    };
+    symbols.push(symbol);
+    current = { symbol, named: false };
+  }
+
+  function close(element: Element | undefined) {
+    if (element) {
+      element.symbol.location.range.end = lastEnd;
+    }
+  }
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'tag':
+        if (!current) {
+          open(token.val, token.loc.start);
+        } else {
+          current.named = true;
+        }
+        break;
+      case 'id':
+      case 'class':
+        if (!current) {
+          open('div', token.loc.start);
+        }
+        if (!current!.named) {
+          current!.symbol.name += (token.type === 'id' ? '#' : '.') + token.val;
+        }
+        break;
+      case 'attribute':
+        if (current && !current.named && (token.name === 'id' || token.name === 'class')) {
+          addAttributeToName(current.symbol, token.name, token.val);
+        }
+        break;
+      case 'start-attributes':
+      case 'end-attributes':
+        break;
+      case 'newline':
+        close(current);
+        current = undefined;
+        break;
+      case 'indent':
+        parents.push(current);
+        current = undefined;
+        break;
+      case 'outdent':
+        close(current);
+        current = undefined;
+        close(parents.pop());
+        break;
+      case 'eos':
+        close(current);
+        parents.forEach(close);
+        break;
+      default:
+        if (current) {
+          current.named = true;
+        }
+    }
+    if (token.type !== 'newline' && token.type !== 'indent' && token.type !== 'outdent') {
+      lastEnd = toPosition(token.loc.end);
+    }
+  }
+  return symbols;
+}
+
+function addAttributeToName(symbol: SymbolInformation, name: string, val: any) {
+  // only static values such as `class="a b"` are known
+  if (typeof val !== 'string' || !/^(["']).*\1$/.test(val)) {
+    return;
+  }
+  const value = val.slice(1, -1).trim();
+  if (!value) {
+    return;
+  }
+  if (name === 'id') {
+    symbol.name += '#' + value;
+  } else {
+    symbol.name += value
+      .split(/\s+/)
+      .map(className => `.${className}`)
+      .join('');
+  }
+}
+
+function toPosition(position: lex.Position) {
+  return Position.create(position.line - 1, position.column - 1);
+}
@@ -0,0 +1,24 @@
+import { TextDocument, Diagnostic, Range, DiagnosticSeverity } from 'vscode-languageserver-types';
+import * as lex from 'pug-lexer';
+
+export function doValidation(document: TextDocument): Diagnostic[] {
+  try {
+    lex(document.getText(), { filename: document.uri });
+  } catch (e) {
+    // a crash of the lexer is not an error of the template
+    if (typeof e.code !== 'string' || !e.code.startsWith('PUG:')) {
+      return [];
+    }
+    const line = e.line - 1;
+    const column = e.column ? e.column - 1 : 0;
+    return [
+      {
+        range: Range.create(line, column, line, column),
+        message: e.msg,
+        source: 'pug',
+        severity: DiagnosticSeverity.Error
+      }
+    ];
+  }
+  return [];
+}
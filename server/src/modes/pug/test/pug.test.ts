@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+
+import { TextDocument, SymbolKind, Location, Range } from 'vscode-languageserver-types';
+import { getHTML5TagProvider } from '../../template/tagProviders/htmlTags';
+import { getVueTagProvider } from '../../template/tagProviders/vueTags';
+import { getComponentTags } from '../../template/tagProviders';
+import { doComplete } from '../services/pugCompletion';
+import { findDocumentSymbols } from '../services/pugSymbols';
+import { doValidation } from '../services/pugValidation';
+
+const TEST_URI = 'test://test/test.pug';
+
+function createDocument(text: string) {
+  return TextDocument.create(TEST_URI, 'pug', 0, text);
+}
+
+suite('Pug Completion', () => {
+  const tagProviders = [
+    getHTML5TagProvider(),
+    getVueTagProvider(),
+    getComponentTags([{ name: 'my-comp', props: [{ name: 'my-prop' }] }])
+  ];
+
+  function completeAt(template: string) {
+    const offset = template.indexOf('|');
+    const document = createDocument(template.replace('|', ''));
+    return doComplete(document, document.positionAt(offset), tagProviders).items;
+  }
+
+  function labels(template: string) {
+    return completeAt(template).map(item => item.label);
+  }
+
+  test('Tags', () => {
+    assert(labels('div\n  sp|').includes('span'), 'html tag');
+    assert(labels('div\n  |').includes('my-comp'), 'component tag');
+    assert.deepEqual(labels('div.a|'), []);
+    assert.deepEqual(labels('p some te|xt'), []);
+  });
+
+  test('Attributes', () => {
+    assert(labels('input(ty|)').includes('type'), 'html attribute');
+    assert(labels('my-comp(:|)').includes('my-prop'), 'component prop');
+    assert(labels('div(a="b", |)').includes('v-if'), 'vue directive');
+    assert(labels('div(\n  id="a"\n  |\n)').includes('class'), 'multi-line attributes');
+    assert(labels('div(@|)').every(label => !label.includes('v-if')), 'event filter');
+    assert.deepEqual(labels('div(id="a") |'), []);
+
+    const item = completeAt('input(ty|)').find(i => i.label === 'type')!;
+    assert.equal(item.textEdit!.newText, 'type="$1"');
+    assert.deepEqual(item.textEdit!.range, Range.create(0, 6, 0, 8));
+  });
+
+  test('Attribute values', () => {
+    assert(labels('input(type="|")').includes('checkbox'), 'html attribute value');
+  });
+});
+
+suite('Pug Symbols', () => {
+  test('Nested tags', () => {
+    const document = createDocument('div#app\n  ul.list(class="a b")\n    li item\n  p.text\n');
+    assert.deepEqual(findDocumentSymbols(document), [
+      {
+        name: 'div#app',
+        kind: SymbolKind.Field,
+        containerName: '',
+        location: Location.create(TEST_URI, Range.create(0, 0, 3, 8))
+      },
+      {
+        name: 'ul.list.a.b',
+        kind: SymbolKind.Field,
+        containerName: 'div#app',
+        location: Location.create(TEST_URI, Range.create(1, 2, 2, 11))
+      },
+      {
+        name: 'li',
+        kind: SymbolKind.Field,
+        containerName: 'ul.list.a.b',
+        location: Location.create(TEST_URI, Range.create(2, 4, 2, 11))
+      },
+      {
+        name: 'p.text',
+        kind: SymbolKind.Field,
+        containerName: 'div#app',
+        location: Location.create(TEST_URI, Range.create(3, 2, 3, 8))
+      }
+    ]);
+  });
+
+  test('Invalid template', () => {
+    assert.deepEqual(findDocumentSymbols(createDocument('div(\n')), []);
+  });
+});
+
+suite('Pug Validation', () => {
+  test('Syntax errors', () => {
+    assert.deepEqual(doValidation(createDocument('div\n  p\n')), []);
+
+    const diagnostics = doValidation(createDocument('div\n    p\n  a\n'));
+    assert.equal(diagnostics.length, 1);
+    assert.equal(diagnostics[0].range.start.line, 2);
+    assert(diagnostics[0].message.startsWith('Inconsistent indentation'));
+  });
+});
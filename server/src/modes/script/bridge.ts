@@ -5,6 +5,39 @@ export const moduleName = 'vue-editor-bridge';
 
 export const fileName = 'vue-temp/vue-editor-bridge.ts';
 
+// helpers for type checking template expressions, see modes/template/services/templateCode
+// they infer the instance type from component options so it works for both old and new vue typings
+const templateHelpers = `
+type IsAny<T> = 0 extends (1 & T) ? true : false;
+type CtorValue<C> = C extends (...args: any[]) => infer R ? R : C extends new (...args: any[]) => infer I ? I : any;
+type PropValue<P> = P extends { type: infer C } ? CtorValue<C> : CtorValue<P>;
+type Data<T> = T extends { data: infer D } ? (D extends (...args: any[]) => infer R ? R : D) : {};
+type Props<T> = T extends { props: infer P }
+  ? P extends string[] ? { [key: string]: any } : { [K in keyof P]: PropValue<P[K]> }
+  : {};
+type Computed<T> = T extends { computed: infer C }
+  ? { [K in keyof C]: C[K] extends { get(): infer G } ? G : C[K] extends (...args: any[]) => infer R ? R : any }
+  : {};
+type Methods<T> = T extends { methods: infer M } ? M : {};
+type UnionToIntersection<U> = (U extends any ? (k: U) => void : never) extends ((k: infer I) => void) ? I : never;
+type MixinMembers<T> = T extends new (...args: any[]) => infer I ? I : Data<T> & Props<T> & Computed<T> & Methods<T>;
+type Mixins<T> = T extends { mixins: (infer M)[] } ? UnionToIntersection<MixinMembers<M>> : {};
+type VueInstance = IsAny<typeof Vue> extends true ? {} : typeof Vue extends new (...args: any[]) => infer I ? I : {};
+export type ComponentInstance<T> = IsAny<T> extends true
+  ? any
+  : T extends new (...args: any[]) => infer I
+    ? I
+    : Data<T> & Props<T> & Computed<T> & Methods<T> & Mixins<T> & VueInstance;
+export declare function iterate<T>(source: T[], cb: (item: T, index: number) => any): void;
+export declare function iterate(source: number, cb: (item: number, index: number) => any): void;
+export declare function iterate(source: string, cb: (item: string, index: number) => any): void;
+export declare function iterate<T>(
+  source: { [key: string]: T },
+  cb: (item: T, key: string, index: number) => any
+): void;
+export declare function iterate(source: any, cb: (item: any, key: any, index: any) => any): void;
+`;
+
 export const oldContent = `
 import Vue from 'vue';
 export interface GeneralOption extends Vue.ComponentOptions<Vue> {
@@ -12,10 +45,10 @@ export interface GeneralOption extends Vue.ComponentOptions<Vue> {
 }
 export default function bridge<T>(t: T & GeneralOption): T {
   return t;
-}`;
+}` + templateHelpers;
 
 export const content = `
 import Vue from 'vue';
 const func = Vue.extend;
 export default func;
-`;
+` + templateHelpers;
@@ -0,0 +1,292 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+import * as _ from 'lodash';
+import { TextDocument, Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver-types';
+import { HTMLDocument, Node } from '../template/parser/htmlParser';
+import { ComponentInfo, ComponentRegistration, findComponentOptions } from './findComponents';
+import { hyphenate, camelize, removeQuotes } from '../../utils/strings';
+
+// code of diagnostics on unused registrations, fixed by `removeComponentRegistration`
+export const UNUSED_COMPONENT = 'unused-component';
+
+/**
+ * A .vue file in the project that is not registered in the current component
+ */
+export interface ImportableComponent {
+  // hyphenated, as in templates
+  name: string;
+  fileName: string;
+  // module path relative to the current component
+  importPath: string;
+}
+
+/**
+ * The name of the component defined in a .vue file, e.g. `MyButton` for `my-button.vue`
+ */
+export function getComponentName(fileName: string) {
+  return _.upperFirst(camelize(path.basename(fileName, '.vue')));
+}
+
+/**
+ * Relative module path for importing `fileName` in `importingFileName`, e.g. `./components/MyButton.vue`
+ */
+export function getImportPath(importingFileName: string, fileName: string) {
+  const relative = path.relative(path.dirname(importingFileName), fileName).replace(/\\/g, '/');
+  return relative.startsWith('.') ? relative : './' + relative;
+}
+
+/**
+ * Warn about components in the `components` option that no tag in the template uses
+ */
+export function doUnusedComponentValidation(
+  scriptDoc: TextDocument,
+  sourceFile: ts.SourceFile,
+  registrations: ComponentRegistration[],
+  htmlDocument: HTMLDocument
+): Diagnostic[] {
+  const usedTags = findUsedTags(htmlDocument);
+  if (!usedTags) {
+    return [];
+  }
+  return registrations.filter(r => !usedTags.includes(hyphenate(r.name))).map(r => {
+    const name = r.property.name!;
+    const start = scriptDoc.positionAt(name.getStart(sourceFile));
+    return {
+      range: Range.create(start, scriptDoc.positionAt(name.getEnd())),
+      severity: DiagnosticSeverity.Warning,
+      code: UNUSED_COMPONENT,
+      message: `Component '${r.name}' is registered but never used in the template`
+    };
+  });
+}
+
+/**
+ * Warn about kebab-case tags that are not registered, but are named after a .vue file in the project
+ */
+export function doUnregisteredComponentValidation(
+  document: TextDocument,
+  htmlDocument: HTMLDocument,
+  components: ComponentInfo[],
+  fileFsPath: string,
+  vueFileNames: string[]
+): Diagnostic[] {
+  const ownTag = hyphenate(getComponentName(fileFsPath));
+  const diagnostics: Diagnostic[] = [];
+
+  function walk(node: Node) {
+    const tag = node.tag ? hyphenate(node.tag) : '';
+    // a component may render itself by its `name`
+    if (tag.includes('-') && tag !== ownTag && !components.some(c => c.name === tag)) {
+      const fileName = vueFileNames.find(f => hyphenate(getComponentName(f)) === tag);
+      if (fileName) {
+        const start = node.start + 1;
+        diagnostics.push({
+          range: Range.create(document.positionAt(start), document.positionAt(start + node.tag!.length)),
+          severity: DiagnosticSeverity.Warning,
+          message:
+            `Component '${node.tag}' is not registered. ` +
+            `Import it from '${getImportPath(fileFsPath, fileName)}' and add it to 'components'`
+        });
+      }
+    }
+    node.children.forEach(walk);
+  }
+
+  htmlDocument.roots.forEach(walk);
+  return diagnostics;
+}
+
+/**
+ * Hyphenated names of tags in the template, including `<component is="name">`.
+ * Undefined when components are chosen dynamically by `:is`
+ */
+function findUsedTags(htmlDocument: HTMLDocument): string[] | undefined {
+  const tags: string[] = [];
+  let isDynamic = false;
+
+  function walk(node: Node) {
+    const attributes = node.attributes || {};
+    if (node.tag) {
+      tags.push(hyphenate(node.tag));
+    }
+    if (attributes.is) {
+      tags.push(hyphenate(removeQuotes(attributes.is)));
+    }
+    if (':is' in attributes || 'v-bind:is' in attributes) {
+      isDynamic = true;
+    }
+    node.children.forEach(walk);
+  }
+
+  htmlDocument.roots.forEach(walk);
+  return isDynamic ? undefined : tags;
+}
+
+/**
+ * Remove a registration from the `components` option, and its import when nothing else uses it
+ */
+export function removeComponentRegistration(
+  sourceFile: ts.SourceFile,
+  registration: ComponentRegistration,
+  checker: ts.TypeChecker
+): ts.TextChange[] {
+  const { property, variable } = registration;
+  const literal = property.parent as ts.ObjectLiteralExpression;
+  const changes =
+    literal.properties.length === 1
+      ? [deleteRange(literal.getStart(sourceFile) + 1, literal.getEnd() - 1)]
+      : [deleteListElement(sourceFile, literal.properties, literal.properties.indexOf(property))];
+
+  const symbol = variable && getValueSymbol(variable, checker);
+  const declaration = symbol && symbol.flags & ts.SymbolFlags.Alias && symbol.declarations && symbol.declarations[0];
+  if (declaration && declaration.getSourceFile() === sourceFile && !isUsedElsewhere(sourceFile, symbol!, variable!)) {
+    const importChange = removeImportBinding(sourceFile, declaration);
+    if (importChange) {
+      changes.push(importChange);
+    }
+  }
+  return changes;
+
+  function isUsedElsewhere(file: ts.SourceFile, aliasSymbol: ts.Symbol, registered: ts.Identifier) {
+    let used = false;
+    function walk(node: ts.Node) {
+      if (
+        ts.isIdentifier(node) &&
+        node !== registered &&
+        node.text === registered.text &&
+        !(declaration && (declaration as ts.NamedDeclaration).name === node) &&
+        getValueSymbol(node, checker) === aliasSymbol
+      ) {
+        used = true;
+      }
+      ts.forEachChild(node, walk);
+    }
+    walk(file);
+    return used;
+  }
+}
+
+function getValueSymbol(identifier: ts.Identifier, checker: ts.TypeChecker) {
+  return identifier.parent && ts.isShorthandPropertyAssignment(identifier.parent)
+    ? checker.getShorthandAssignmentValueSymbol(identifier.parent)
+    : checker.getSymbolAtLocation(identifier);
+}
+
+/**
+ * Delete the default, namespace or named import declaring a binding, or the whole import when it is the only one
+ */
+function removeImportBinding(sourceFile: ts.SourceFile, declaration: ts.Declaration): ts.TextChange | undefined {
+  let clause: ts.ImportClause;
+  if (ts.isImportClause(declaration)) {
+    clause = declaration;
+    if (clause.namedBindings) {
+      return deleteRange(clause.name!.getStart(sourceFile), clause.namedBindings.getStart(sourceFile));
+    }
+  } else if (ts.isNamespaceImport(declaration)) {
+    clause = declaration.parent!;
+    if (clause.name) {
+      return deleteRange(clause.name.getEnd(), declaration.getEnd());
+    }
+  } else if (ts.isImportSpecifier(declaration)) {
+    const elements = declaration.parent!.elements;
+    clause = declaration.parent!.parent!;
+    if (elements.length > 1) {
+      return deleteListElement(sourceFile, elements, elements.indexOf(declaration));
+    }
+    if (clause.name) {
+      return deleteRange(clause.name.getEnd(), clause.namedBindings!.getEnd());
+    }
+  } else {
+    return undefined;
+  }
+  const statement = clause.parent!;
+  const lineEnd = /^[ \t]*(\r?\n)?/.exec(sourceFile.text.slice(statement.getEnd()))![0];
+  return deleteRange(statement.getStart(sourceFile), statement.getEnd() + lineEnd.length);
+}
+
+// delete an element of a comma separated list, with the comma between it and its neighbour
+function deleteListElement(sourceFile: ts.SourceFile, elements: ReadonlyArray<ts.Node>, index: number) {
+  if (index < elements.length - 1) {
+    return deleteRange(elements[index].getStart(sourceFile), elements[index + 1].getStart(sourceFile));
+  }
+  return deleteRange(elements[index - 1].getEnd(), elements[index].getEnd());
+}
+
+function deleteRange(start: number, end: number): ts.TextChange {
+  return replaceRange(start, end, '');
+}
+
+export function isWrittenImport(statement: ts.Statement) {
+  // the import of `vue-editor-bridge` inserted by `modifyVueSource` has an empty span
+  return ts.isImportDeclaration(statement) && statement.end > 0;
+}
+
+/**
+ * Import a component and add it to the `components` option, creating the option when there is none.
+ * Without imports, the import is inserted at 0, the start of `<script>`
+ */
+export function addComponentRegistration(
+  sourceFile: ts.SourceFile,
+  name: string,
+  importPath: string
+): ts.TextChange[] {
+  const text = sourceFile.text;
+  const imports = sourceFile.statements.filter(isWrittenImport) as ts.ImportDeclaration[];
+  const lastImport = _.last(imports);
+  // follow the quotes and semicolons of existing imports
+  const quote = lastImport ? text.charAt(lastImport.moduleSpecifier.getStart(sourceFile)) : `'`;
+  const semicolon = lastImport && text.charAt(lastImport.getEnd() - 1) !== ';' ? '' : ';';
+  const importText = `import ${name} from ${quote}${importPath}${quote}${semicolon}`;
+  const changes: ts.TextChange[] = [
+    lastImport ? insertText(lastImport.getEnd(), '\n' + importText) : insertText(0, importText + '\n')
+  ];
+
+  const options = findComponentOptions(sourceFile);
+  if (!options) {
+    return changes;
+  }
+  const componentsOption = options.properties.find(p => !!p.name && getPropertyName(p.name) === 'components');
+  if (!componentsOption) {
+    const firstOption = options.properties[0];
+    if (firstOption) {
+      const start = firstOption.getStart(sourceFile);
+      changes.push(insertText(start, `components: { ${name} },\n${getIndent(text, start)}`));
+    } else {
+      const optionsText = `\n  components: { ${name} }\n`;
+      changes.push(replaceRange(options.getStart(sourceFile) + 1, options.getEnd() - 1, optionsText));
+    }
+    return changes;
+  }
+  if (!ts.isPropertyAssignment(componentsOption) || !ts.isObjectLiteralExpression(componentsOption.initializer)) {
+    return changes;
+  }
+  const components = componentsOption.initializer;
+  const lastComponent = _.last(components.properties);
+  if (!lastComponent) {
+    changes.push(replaceRange(components.getStart(sourceFile) + 1, components.getEnd() - 1, ` ${name} `));
+  } else {
+    const start = lastComponent.getStart(sourceFile);
+    const isMultiline = text.slice(components.getStart(sourceFile), start).includes('\n');
+    const separator = isMultiline ? ',\n' + getIndent(text, start) : ', ';
+    changes.push(insertText(lastComponent.getEnd(), separator + name));
+  }
+  return changes;
+}
+
+function getPropertyName(name: ts.PropertyName) {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name) ? name.text : undefined;
+}
+
+// whitespace before `offset` on its line
+function getIndent(text: string, offset: number) {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart, offset))![0];
+}
+
+function insertText(offset: number, newText: string): ts.TextChange {
+  return { span: { start: offset, length: 0 }, newText };
+}
+
+function replaceRange(start: number, end: number, newText: string): ts.TextChange {
+  return { span: { start, length: end - start }, newText };
+}
@@ -0,0 +1,114 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+import { TextDocument, TextEdit, Range } from 'vscode-languageserver-types';
+import { getDocumentRegions } from '../embeddedSupport';
+import { getExternalScript, getScriptDocument, isVue } from './preprocess';
+import { getImportPath } from './componentRegistration';
+import { getFileFsPath } from '../../utils/paths';
+
+// extensions that relative module paths may leave out, `.d.ts` before `.ts`
+const implicitExtensions = ['.d.ts', '.ts', '.tsx', '.js', '.jsx'];
+
+/**
+ * A file or directory that is about to be moved, as in `workspace/willRenameFiles`
+ */
+export interface FsPathRename {
+  oldFsPath: string;
+  newFsPath: string;
+}
+
+/**
+ * Edits of the relative module paths in a file that refer to renamed files or directories,
+ * or of all of them when the file itself is moved.
+ * Besides imports, `import()` and `require()` in scripts, this covers `src` of `<script>` and `<style>` in .vue files.
+ * Offsets are those of `document`, the file as open in the editor or as saved
+ */
+export function getFileRenameEdits(document: TextDocument, renames: FsPathRename[]): TextEdit[] {
+  const fileName = getFileFsPath(document.uri);
+  const newFileName = getRenamedPath(fileName, renames) || fileName;
+  const edits: TextEdit[] = [];
+
+  function pushEdit(start: number, end: number, modulePath: string) {
+    const newModulePath = getNewModulePath(fileName, newFileName, modulePath, renames);
+    if (newModulePath) {
+      edits.push(TextEdit.replace(Range.create(document.positionAt(start), document.positionAt(end)), newModulePath));
+    }
+  }
+
+  let sourceFile: ts.SourceFile;
+  if (isVue(fileName)) {
+    const regions = getDocumentRegions(document);
+    regions.getExternalSources().forEach(s => pushEdit(s.start, s.end, s.src));
+    // `<script src>` is compiled as a re-export of the external script, which is not written in the file
+    if (getExternalScript(regions)) {
+      return edits;
+    }
+    // the script of a .vue file is at the same offsets as in the file
+    const scriptDocument = getScriptDocument(document, regions);
+    const scriptKind =
+      scriptDocument.languageId === 'typescript'
+        ? ts.ScriptKind.TS
+        : scriptDocument.languageId === 'tsx' ? ts.ScriptKind.TSX : ts.ScriptKind.JS;
+    sourceFile = ts.createSourceFile(fileName, scriptDocument.getText(), ts.ScriptTarget.Latest, true, scriptKind);
+  } else {
+    sourceFile = ts.createSourceFile(fileName, document.getText(), ts.ScriptTarget.Latest, true);
+  }
+
+  function walk(node: ts.Node) {
+    const moduleSpecifier = getModuleSpecifier(node);
+    if (moduleSpecifier && ts.isStringLiteral(moduleSpecifier)) {
+      const start = moduleSpecifier.getStart(sourceFile) + 1;
+      pushEdit(start, start + moduleSpecifier.text.length, moduleSpecifier.text);
+    }
+    ts.forEachChild(node, walk);
+  }
+  walk(sourceFile);
+  return edits;
+}
+
+function getModuleSpecifier(node: ts.Node): ts.Expression | undefined {
+  if (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) {
+    return node.moduleSpecifier;
+  }
+  if (ts.isExternalModuleReference(node)) {
+    return node.expression;
+  }
+  if (
+    ts.isCallExpression(node) &&
+    node.arguments.length === 1 &&
+    (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+      (ts.isIdentifier(node.expression) && node.expression.text === 'require'))
+  ) {
+    return node.arguments[0];
+  }
+  return undefined;
+}
+
+function getRenamedPath(fileName: string, renames: FsPathRename[]) {
+  for (const { oldFsPath, newFsPath } of renames) {
+    const relative = path.relative(oldFsPath, fileName);
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return path.join(newFsPath, relative);
+    }
+  }
+  return undefined;
+}
+
+function getNewModulePath(fileName: string, newFileName: string, modulePath: string, renames: FsPathRename[]) {
+  if (!modulePath.startsWith('.')) {
+    return undefined;
+  }
+  const target = path.resolve(path.dirname(fileName), modulePath);
+  const extension = ts.sys.fileExists(target) ? '' : implicitExtensions.find(ext => ts.sys.fileExists(target + ext));
+  const targetFileName = target + (extension || '');
+  const newTargetFileName = getRenamedPath(targetFileName, renames) || targetFileName;
+  if (newFileName === fileName && newTargetFileName === targetFileName) {
+    return undefined;
+  }
+  let newModulePath = getImportPath(newFileName, newTargetFileName);
+  if (extension) {
+    const newExtension = implicitExtensions.find(ext => newModulePath.endsWith(ext)) || '';
+    newModulePath = newModulePath.slice(0, newModulePath.length - newExtension.length);
+  }
+  return newModulePath !== modulePath ? newModulePath : undefined;
+}
@@ -1,27 +1,52 @@
 import * as ts from 'typescript';
-import { Definition, Range } from 'vscode-languageserver-types';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Definition, Location, Range, TextDocument } from 'vscode-languageserver-types';
 import Uri from 'vscode-uri';
+import * as _ from 'lodash';
+import { hyphenate, removeQuotes } from '../../utils/strings';
+import { getDocumentRegions } from '../embeddedSupport';
+import { parseHTMLDocument, Node } from '../template/parser/htmlParser';
 
 export interface PropInfo {
   name: string;
   doc?: string;
+  definition?: Location;
+  // constructor names in `type`, e.g. `['String', 'Number']` for `type: [String, Number]`
+  type?: string[];
+  required?: boolean;
+}
+
+export interface EventInfo {
+  name: string;
+  doc?: string;
+}
+
+export interface SlotInfo {
+  // `default` for the unnamed slot
+  name: string;
+  // names bound on a scoped slot, e.g. `item` for `<slot :item="item">`
+  props: string[];
+}
+
+export interface ModelInfo {
+  prop: string;
+  event: string;
 }
 
 export interface ComponentInfo {
   name: string;
   definition?: Definition;
   props?: PropInfo[];
+  events?: EventInfo[];
+  slots?: SlotInfo[];
+  model?: ModelInfo;
 }
 
 export function findComponents(service: ts.LanguageService, fileFsPath: string): ComponentInfo[] {
   const program = service.getProgram();
-  const sourceFile = program.getSourceFile(fileFsPath)!;
-  const exportStmt = sourceFile.statements.filter(st => st.kind === ts.SyntaxKind.ExportAssignment);
-  if (exportStmt.length === 0) {
-    return [];
-  }
-  const exportExpr = (exportStmt[0] as ts.ExportAssignment).expression;
-  const comp = getComponentFromExport(exportExpr);
+  const sourceFile = getComponentSourceFile(program, program.getSourceFile(fileFsPath)!);
+  const comp = getDefaultExportComponent(sourceFile);
   if (!comp) {
     return [];
   }
@@ -34,6 +59,380 @@ export function findComponents(service: ts.LanguageService, fileFsPath: string):
   return checker.getPropertiesOfType(childComps).map(s => getCompInfo(s, checker));
 }
 
+/**
+ * Components registered with `Vue.component('name', definition)` in any file of the program,
+ * including the ones loaded through `require.context`
+ */
+export function findGlobalComponents(service: ts.LanguageService): ComponentInfo[] {
+  const program = service.getProgram();
+  const registrations: { sourceFile: ts.SourceFile; registrations: GlobalRegistrations; listings: string[][] }[] = [];
+  for (const sourceFile of program.getSourceFiles()) {
+    if (sourceFile.isDeclarationFile || /[\\/]node_modules[\\/]/.test(sourceFile.fileName)) {
+      continue;
+    }
+    const fileRegistrations = getGlobalRegistrations(sourceFile);
+    if (fileRegistrations.components.length || fileRegistrations.contexts.length) {
+      registrations.push({
+        sourceFile,
+        registrations: fileRegistrations,
+        listings: fileRegistrations.contexts.map(context => listRequireContext(sourceFile.fileName, context))
+      });
+    }
+  }
+  // listings are cached arrays, so the same instances mean that no component was added or removed
+  const listings = _.flatMap(registrations, r => r.listings);
+  const cached = globalComponentsCache.get(program);
+  if (cached && cached.listings.length === listings.length && cached.listings.every((l, i) => l === listings[i])) {
+    return cached.components;
+  }
+
+  const checker = program.getTypeChecker();
+  const components: ComponentInfo[] = [];
+  for (const { registrations: fileRegistrations, listings: fileListings } of registrations) {
+    for (const { name, definition } of fileRegistrations.components) {
+      let symbol = checker.getSymbolAtLocation(definition) || checker.getTypeAtLocation(definition).getSymbol();
+      if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+        // Vue.component('name', ImportedComponent)
+        symbol = checker.getAliasedSymbol(symbol);
+      }
+      components.push(symbol ? getCompInfo(symbol, checker, name) : { name: hyphenate(name) });
+    }
+    for (const fileName of _.flatten(fileListings)) {
+      const name = path.basename(fileName, path.extname(fileName));
+      const componentFile = program.getSourceFile(fileName);
+      const moduleSymbol = componentFile && checker.getSymbolAtLocation(componentFile);
+      const defaultExport = moduleSymbol && moduleSymbol.exports && moduleSymbol.exports.get('default' as ts.__String);
+      if (defaultExport) {
+        components.push(getCompInfo(defaultExport, checker, name));
+      } else {
+        components.push({
+          name: hyphenate(name),
+          definition: [{ uri: Uri.file(fileName).toString(), range: Range.create(0, 0, 0, 0) }]
+        });
+      }
+    }
+  }
+  globalComponentsCache.set(program, { listings, components });
+  return components;
+}
+
+// A program is replaced on every edit, so components are only collected again after a change
+const globalComponentsCache = new WeakMap<ts.Program, { listings: string[][]; components: ComponentInfo[] }>();
+
+interface RequireContext {
+  directory: string;
+  recursive: boolean;
+  filter?: RegExp;
+}
+
+interface GlobalRegistrations {
+  components: { name: string; definition: ts.Expression }[];
+  contexts: RequireContext[];
+}
+
+// Unchanged source files are shared between programs, so registrations are only collected once per file
+const globalRegistrationsCache = new WeakMap<ts.SourceFile, GlobalRegistrations>();
+
+function getGlobalRegistrations(sourceFile: ts.SourceFile): GlobalRegistrations {
+  const cached = globalRegistrationsCache.get(sourceFile);
+  if (cached) {
+    return cached;
+  }
+  const components: GlobalRegistrations['components'] = [];
+  const contexts: { [variable: string]: RequireContext } = {};
+  // `requireComponent` in `requireComponent.keys().forEach(...)` surrounding a `Vue.component(name, ...)` call
+  const registeringContexts: string[] = [];
+
+  function walk(node: ts.Node, keysLoops: string[]) {
+    if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const callee = node.expression;
+      const [first, second, third] = node.arguments;
+      if (isIdentifierNamed(callee.expression, 'Vue') && callee.name.text === 'component' && second) {
+        if (ts.isStringLiteral(first)) {
+          components.push({ name: first.text, definition: second });
+        } else {
+          registeringContexts.push(...keysLoops);
+        }
+      } else if (isIdentifierNamed(callee.expression, 'require') && callee.name.text === 'context' && first) {
+        const declaration = node.parent;
+        if (
+          ts.isStringLiteral(first) &&
+          declaration &&
+          ts.isVariableDeclaration(declaration) &&
+          ts.isIdentifier(declaration.name)
+        ) {
+          contexts[declaration.name.text] = {
+            directory: first.text,
+            recursive: !!second && second.kind === ts.SyntaxKind.TrueKeyword,
+            filter: third && ts.isRegularExpressionLiteral(third) ? parseRegExp(third.text) : undefined
+          };
+        }
+      }
+    }
+    const keysOf = getKeysLoopTarget(node);
+    ts.forEachChild(node, child => walk(child, keysOf ? keysLoops.concat(keysOf) : keysLoops));
+  }
+  walk(sourceFile, []);
+
+  const registrations: GlobalRegistrations = {
+    components,
+    contexts: _.uniq(registeringContexts)
+      .filter(variable => !!contexts[variable])
+      .map(variable => contexts[variable])
+  };
+  globalRegistrationsCache.set(sourceFile, registrations);
+  return registrations;
+}
+
+/**
+ * Returns `ctx` for `ctx.keys().forEach(...)` and `for (const key of ctx.keys())`
+ */
+function getKeysLoopTarget(node: ts.Node) {
+  let keysCall: ts.Expression | undefined;
+  if (ts.isForOfStatement(node)) {
+    keysCall = node.expression;
+  } else if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+    keysCall = node.expression.expression;
+  }
+  if (
+    keysCall &&
+    ts.isCallExpression(keysCall) &&
+    ts.isPropertyAccessExpression(keysCall.expression) &&
+    keysCall.expression.name.text === 'keys' &&
+    ts.isIdentifier(keysCall.expression.expression)
+  ) {
+    return keysCall.expression.expression.text;
+  }
+  return undefined;
+}
+
+function isIdentifierNamed(node: ts.Node, name: string) {
+  return ts.isIdentifier(node) && node.text === name;
+}
+
+function parseRegExp(literal: string) {
+  const lastSlash = literal.lastIndexOf('/');
+  try {
+    // without `g` flag, `test` would be stateful
+    return new RegExp(literal.slice(1, lastSlash), literal.slice(lastSlash + 1).replace('g', ''));
+  } catch (e) {
+    return undefined;
+  }
+}
+
+interface RequireContextListing {
+  // mtimes of the walked directories, which change when an entry is added, removed or renamed
+  directories: { dir: string; mtime: number | undefined }[];
+  files: string[];
+}
+
+const requireContextCache = new Map<string, RequireContextListing>();
+
+function getMtime(fsPath: string) {
+  try {
+    return fs.statSync(fsPath).mtime.getTime();
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Lists files matched by `require.context`. webpack tests the filter against paths like `./dir/Comp.vue`
+ */
+function listRequireContext(fileName: string, context: RequireContext): string[] {
+  const root = path.resolve(path.dirname(fileName), context.directory);
+  const cacheKey = [root, context.recursive, context.filter || ''].join('|');
+  const cached = requireContextCache.get(cacheKey);
+  if (cached && cached.directories.every(({ dir, mtime }) => getMtime(dir) === mtime)) {
+    return cached.files;
+  }
+
+  const directories: RequireContextListing['directories'] = [];
+  const files: string[] = [];
+  function readDir(dir: string) {
+    directories.push({ dir, mtime: getMtime(dir) });
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(dir);
+    } catch (e) {
+      return;
+    }
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry);
+      let isDirectory: boolean;
+      try {
+        isDirectory = fs.statSync(fullPath).isDirectory();
+      } catch (e) {
+        // dangling symlink
+        continue;
+      }
+      if (isDirectory) {
+        if (context.recursive && entry !== 'node_modules') {
+          readDir(fullPath);
+        }
+        continue;
+      }
+      const request = './' + path.relative(root, fullPath).replace(/\\/g, '/');
+      const matches = context.filter
+        ? context.filter.test(request) && /\.(vue|jsx?|tsx?)$/.test(entry)
+        : entry.endsWith('.vue');
+      if (matches) {
+        files.push(fullPath);
+      }
+    }
+  }
+  readDir(root);
+  requireContextCache.set(cacheKey, { directories, files });
+  return files;
+}
+
+/**
+ * A prop or event name declared in a component's script, `start` and `end` cover the name only
+ */
+export interface ComponentMember {
+  name: string;
+  start: number;
+  end: number;
+  // declared as a string, e.g. `props: ['value']` or `this.$emit('change')`
+  isLiteral: boolean;
+}
+
+export function findPropDeclarations(sourceFile: ts.SourceFile): ComponentMember[] {
+  const classDeclaration = getDefaultExportClass(sourceFile);
+  const classProps = classDeclaration ? getClassProps(classDeclaration) : [];
+  return findOptionPropDeclarations(sourceFile).concat(classProps.map(p => getMember(p.name, sourceFile)));
+}
+
+function findOptionPropDeclarations(sourceFile: ts.SourceFile): ComponentMember[] {
+  const comp = getDefaultExportComponent(sourceFile);
+  if (!comp || !ts.isObjectLiteralExpression(comp)) {
+    return [];
+  }
+  const props = comp.properties.find(p => !!p.name && getMemberName(p.name) === 'props');
+  if (!props || !ts.isPropertyAssignment(props)) {
+    return [];
+  }
+  const init = props.initializer;
+  if (ts.isArrayLiteralExpression(init)) {
+    return init.elements.filter(isStringLiteral).map(e => getMember(e, sourceFile));
+  }
+  if (ts.isObjectLiteralExpression(init)) {
+    const members: ComponentMember[] = [];
+    init.properties.forEach(p => {
+      if (p.name && (ts.isIdentifier(p.name) || ts.isStringLiteral(p.name))) {
+        members.push(getMember(p.name, sourceFile));
+      }
+    });
+    return members;
+  }
+  return [];
+}
+
+/**
+ * A component in the `components` option, e.g. `Foo` or `'bar-baz': Bar` in `components: { Foo, 'bar-baz': Bar }`
+ */
+export interface ComponentRegistration {
+  // the name as written in the option
+  name: string;
+  property: ts.ObjectLiteralElementLike;
+  // the registered variable, `Foo` and `Bar` above
+  variable?: ts.Identifier;
+}
+
+export function findComponentRegistrations(sourceFile: ts.SourceFile): ComponentRegistration[] {
+  const comp = findComponentOptions(sourceFile);
+  if (!comp) {
+    return [];
+  }
+  const components = comp.properties.find(p => !!p.name && getMemberName(p.name) === 'components');
+  if (!components || !ts.isPropertyAssignment(components) || !ts.isObjectLiteralExpression(components.initializer)) {
+    return [];
+  }
+  const registrations: ComponentRegistration[] = [];
+  components.initializer.properties.forEach(property => {
+    const name = property.name && getMemberName(property.name);
+    if (!name) {
+      return;
+    }
+    if (ts.isShorthandPropertyAssignment(property)) {
+      registrations.push({ name, property, variable: property.name });
+    } else if (ts.isPropertyAssignment(property)) {
+      const variable = ts.isIdentifier(property.initializer) ? property.initializer : undefined;
+      registrations.push({ name, property, variable });
+    }
+  });
+  return registrations;
+}
+
+/**
+ * Find event names in `$emit('event')` calls
+ */
+export function findEmittedEvents(sourceFile: ts.SourceFile, root: ts.Node = sourceFile): ComponentMember[] {
+  const members: ComponentMember[] = [];
+  function walk(node: ts.Node) {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === '$emit' &&
+      node.arguments.length > 0 &&
+      ts.isStringLiteral(node.arguments[0])
+    ) {
+      members.push(getMember(node.arguments[0] as ts.StringLiteral, sourceFile));
+    }
+    ts.forEachChild(node, walk);
+  }
+  walk(root);
+  return members;
+}
+
+function getMember(node: ts.Identifier | ts.StringLiteral, sourceFile: ts.SourceFile): ComponentMember {
+  const isLiteral = ts.isStringLiteral(node);
+  const quoteLength = isLiteral ? 1 : 0;
+  return {
+    name: node.text,
+    start: node.getStart(sourceFile) + quoteLength,
+    end: node.getEnd() - quoteLength,
+    isLiteral
+  };
+}
+
+function getMemberName(name: ts.PropertyName) {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name) ? name.text : undefined;
+}
+
+/**
+ * The options object of the default export, `{ ... }` in `export default { ... }` or `@Component({ ... })`
+ */
+export function findComponentOptions(sourceFile: ts.SourceFile): ts.ObjectLiteralExpression | undefined {
+  const comp = getDefaultExportComponent(sourceFile);
+  return comp && ts.isObjectLiteralExpression(comp) ? comp : undefined;
+}
+
+/**
+ * The file defining the component of a .vue file, which is another file for `<script src="./comp.js">`
+ */
+function getComponentSourceFile(program: ts.Program, sourceFile: ts.SourceFile): ts.SourceFile {
+  const reexport = sourceFile.statements.find(ts.isExportDeclaration);
+  if (!reexport || !reexport.moduleSpecifier || getDefaultExportComponent(sourceFile)) {
+    return sourceFile;
+  }
+  const moduleSymbol = program.getTypeChecker().getSymbolAtLocation(reexport.moduleSpecifier);
+  const declaration = moduleSymbol && moduleSymbol.valueDeclaration;
+  return declaration && ts.isSourceFile(declaration) ? declaration : sourceFile;
+}
+
+function getDefaultExportComponent(sourceFile: ts.SourceFile) {
+  const classDeclaration = getDefaultExportClass(sourceFile);
+  if (classDeclaration) {
+    return getComponentDecoratorOptions(classDeclaration);
+  }
+  const exportStmt = sourceFile.statements.filter(st => st.kind === ts.SyntaxKind.ExportAssignment);
+  if (exportStmt.length === 0) {
+    return undefined;
+  }
+  return getComponentFromExport((exportStmt[0] as ts.ExportAssignment).expression);
+}
+
 function getComponentFromExport(exportExpr: ts.Expression) {
   switch (exportExpr.kind) {
     case ts.SyntaxKind.CallExpression:
@@ -45,11 +444,120 @@ function getComponentFromExport(exportExpr: ts.Expression) {
   return undefined;
 }
 
+/**
+ * `@Component export default class Foo extends Vue {}`, or a class exported by `export default Foo`
+ */
+function getDefaultExportClass(sourceFile: ts.SourceFile): ts.ClassDeclaration | undefined {
+  for (const st of sourceFile.statements) {
+    if (ts.isClassDeclaration(st) && hasExportDefaultModifier(st)) {
+      return st;
+    }
+    if (ts.isExportAssignment(st) && ts.isIdentifier(st.expression)) {
+      const name = st.expression.text;
+      return sourceFile.statements.find(s => ts.isClassDeclaration(s) && !!s.name && s.name.text === name) as
+        | ts.ClassDeclaration
+        | undefined;
+    }
+  }
+  return undefined;
+}
+
+function hasExportDefaultModifier(node: ts.Node) {
+  return (ts.getCombinedModifierFlags(node) & ts.ModifierFlags.ExportDefault) === ts.ModifierFlags.ExportDefault;
+}
+
+function getDecoratorCall(node: ts.Node, name: string): ts.CallExpression | undefined {
+  for (const decorator of node.decorators || []) {
+    const expr = decorator.expression;
+    if (ts.isCallExpression(expr) && isIdentifierNamed(expr.expression, name)) {
+      return expr;
+    }
+  }
+  return undefined;
+}
+
+function getComponentDecoratorOptions(classDeclaration: ts.ClassDeclaration) {
+  const component = getDecoratorCall(classDeclaration, 'Component');
+  const options = component && component.arguments[0];
+  return options && ts.isObjectLiteralExpression(options) ? options : undefined;
+}
+
+interface ClassProp {
+  member: ts.ClassElement;
+  // the member name, or the prop name passed to `@PropSync`
+  name: ts.Identifier | ts.StringLiteral;
+  options?: ts.Expression;
+}
+
+/**
+ * Props declared by `@Prop(options) name`, `@PropSync('name', options) syncedName` and `@Model('event', options) name`
+ */
+function getClassProps(classDeclaration: ts.ClassDeclaration): ClassProp[] {
+  const props: ClassProp[] = [];
+  for (const member of classDeclaration.members) {
+    if (!member.name || !ts.isIdentifier(member.name)) {
+      continue;
+    }
+    const prop = getDecoratorCall(member, 'Prop');
+    const propSync = getDecoratorCall(member, 'PropSync');
+    const model = getDecoratorCall(member, 'Model');
+    if (prop) {
+      props.push({ member, name: member.name, options: prop.arguments[0] });
+    } else if (propSync && propSync.arguments.length > 0 && ts.isStringLiteral(propSync.arguments[0])) {
+      props.push({ member, name: propSync.arguments[0] as ts.StringLiteral, options: propSync.arguments[1] });
+    } else if (model) {
+      props.push({ member, name: member.name, options: model.arguments[1] });
+    }
+  }
+  return props;
+}
+
+function getClassPropInfo(prop: ClassProp): PropInfo {
+  const { member, name, options } = prop;
+  const typeAnnotation = ts.isPropertyDeclaration(member) && member.type ? member.type.getText() : '';
+  const info: PropInfo = {
+    name: hyphenate(name.text),
+    doc: options ? getPropOptionsText(options) : typeAnnotation,
+    definition: getDeclarationLocation(ts.isStringLiteral(name) ? name : member)
+  };
+  return options ? Object.assign(info, getPropOptions(options)) : info;
+}
+
+/**
+ * `@Model('change') checked` binds `checked` prop and `change` event
+ */
+function getClassModel(classDeclaration: ts.ClassDeclaration): ModelInfo | undefined {
+  for (const member of classDeclaration.members) {
+    const model = getDecoratorCall(member, 'Model');
+    if (model && member.name && ts.isIdentifier(member.name)) {
+      const event = model.arguments[0];
+      return { prop: member.name.text, event: event && ts.isStringLiteral(event) ? event.text : 'input' };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Events emitted by `@Emit('event')` methods, which default to the hyphenated method name
+ */
+function getEmitDecoratorEvents(classDeclaration: ts.ClassDeclaration): string[] {
+  const events: string[] = [];
+  for (const member of classDeclaration.members) {
+    const emit = getDecoratorCall(member, 'Emit');
+    if (!emit || !member.name || !ts.isIdentifier(member.name)) {
+      continue;
+    }
+    const event = emit.arguments[0];
+    events.push(event && ts.isStringLiteral(event) ? event.text : hyphenate(member.name.text));
+  }
+  return events;
+}
+
 // Vue.extend will return a type without `props`. We need to find the object literal
 function findDefinitionLiteralSymbol(symbol: ts.Symbol, checker: ts.TypeChecker) {
   const node = symbol.valueDeclaration;
   if (!node) {
-    return undefined;
+    return symbol.flags & ts.SymbolFlags.ObjectLiteral ? symbol : undefined;
   }
   if (node.kind === ts.SyntaxKind.PropertyAssignment) {
     // {comp: importedComponent}
@@ -65,49 +573,206 @@ function findDefinitionLiteralSymbol(symbol: ts.Symbol, checker: ts.TypeChecker)
   return symbol;
 }
 
-function getCompInfo(symbol: ts.Symbol, checker: ts.TypeChecker) {
+function getCompInfo(symbol: ts.Symbol, checker: ts.TypeChecker, name = symbol.name) {
   const info: ComponentInfo = {
-    name: hyphenate(symbol.name)
+    name: hyphenate(name)
   };
   const literalSymbol = findDefinitionLiteralSymbol(symbol, checker);
   if (!literalSymbol) {
     return info;
   }
-  const declaration = literalSymbol.valueDeclaration;
+  // object literal types, e.g. `Vue.component('name', { ... })`, only have `declarations`
+  const declaration = literalSymbol.valueDeclaration || _.first(literalSymbol.declarations || []);
   if (!declaration) {
     return info;
   }
-  info.definition = [
-    {
-      uri: Uri.file(declaration.getSourceFile().fileName).toString(),
-      range: Range.create(0, 0, 0, 0)
-    }
-  ];
+  info.definition = [getDeclarationLocation(declaration)];
 
   let node: ts.Node = declaration;
+  const classDeclaration = ts.isClassDeclaration(declaration) ? declaration : undefined;
   if (declaration.kind === ts.SyntaxKind.ExportAssignment) {
     const expr = (declaration as ts.ExportAssignment).expression;
     node = getComponentFromExport(expr) || declaration;
+  } else if (classDeclaration) {
+    // class components pass their options to `@Component({ ... })`
+    node = getComponentDecoratorOptions(classDeclaration) || classDeclaration;
+  }
+  const compType = node !== classDeclaration ? checker.getTypeAtLocation(node) : undefined;
+  const model = (classDeclaration && getClassModel(classDeclaration)) || getModel(compType, checker);
+  if (model) {
+    info.model = model;
+  }
+  // a single file component may emit events from helpers outside of its options
+  const sourceFile = node.getSourceFile();
+  const emitRoot = declaration.kind === ts.SyntaxKind.ExportAssignment ? sourceFile : classDeclaration || node;
+  const template = getTemplateInfo(sourceFile.fileName);
+  const eventNames = getDeclaredEvents(compType, checker)
+    .concat(classDeclaration ? getEmitDecoratorEvents(classDeclaration) : [])
+    .concat(findEmittedEvents(sourceFile, emitRoot).map(e => e.name), template.events)
+    .concat(model ? [model.event] : []);
+  if (eventNames.length > 0) {
+    info.events = _.uniq(eventNames).map(name => ({
+      name,
+      doc: model && model.event === name ? `Emitted to update \`v-model\`` : undefined
+    }));
   }
-  const compType = checker.getTypeAtLocation(node);
+  if (template.slots.length > 0) {
+    info.slots = template.slots;
+  }
+
+  const optionProps = getOptionProps(compType, checker);
+  const classProps = classDeclaration ? getClassProps(classDeclaration).map(getClassPropInfo) : [];
+  if (optionProps || classProps.length > 0) {
+    info.props = (optionProps || []).concat(classProps);
+  }
+  return info;
+}
+
+/**
+ * Props declared in the `props` option, either as an array of names or an object
+ */
+function getOptionProps(compType: ts.Type | undefined, checker: ts.TypeChecker): PropInfo[] | undefined {
   const arrayProps = getArrayProps(compType, checker);
   if (arrayProps) {
-    info.props = arrayProps;
-    return info;
+    return arrayProps;
   }
   const props = getPropertyTypeOfType(compType, 'props', checker);
   if (!props) {
-    return info;
+    return undefined;
   }
-  info.props = checker.getPropertiesOfType(props).map(s => {
-    return {
+  return checker.getPropertiesOfType(props).map(s => {
+    const prop: PropInfo = {
       name: hyphenate(s.name),
       doc: getPropTypeDeclaration(s, checker)
     };
+    if (s.valueDeclaration) {
+      prop.definition = getDeclarationLocation(s.valueDeclaration);
+      if (ts.isPropertyAssignment(s.valueDeclaration)) {
+        Object.assign(prop, getPropOptions(s.valueDeclaration.initializer));
+      }
+    }
+    return prop;
+  });
+}
+
+/**
+ * Location of `export default` for a component module, or of the declared name otherwise
+ */
+function getDeclarationLocation(declaration: ts.Node): Location {
+  const sourceFile = declaration.getSourceFile();
+  let start = declaration.getStart(sourceFile);
+  let end = start;
+  if (ts.isExportAssignment(declaration)) {
+    end = start + 'export default'.length;
+  } else {
+    const name = ts.getNameOfDeclaration(declaration as ts.Declaration);
+    if (name) {
+      // exclude quotes of `'prop-name': String` and `props: ['propName']`
+      const quoteLength = ts.isStringLiteral(name) ? 1 : 0;
+      start = name.getStart(sourceFile) + quoteLength;
+      end = name.getEnd() - quoteLength;
+    } else if (ts.isStringLiteral(declaration)) {
+      start += 1;
+      end = declaration.getEnd() - 1;
+    }
+  }
+  return Location.create(
+    Uri.file(sourceFile.fileName).toString(),
+    Range.create(toPosition(sourceFile, start), toPosition(sourceFile, end))
+  );
+}
+
+function toPosition(sourceFile: ts.SourceFile, offset: number) {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(offset);
+  return { line, character };
+}
+
+/**
+ * Events declared in `emits: ['change']` or `emits: { change: null }`
+ */
+function getDeclaredEvents(compType: ts.Type | undefined, checker: ts.TypeChecker): string[] {
+  const emits = getOptionInitializer(compType, 'emits', checker);
+  if (emits && ts.isArrayLiteralExpression(emits)) {
+    return emits.elements.filter(isStringLiteral).map(e => e.text);
+  }
+  if (emits && ts.isObjectLiteralExpression(emits)) {
+    return _.compact(emits.properties.map(p => p.name && getMemberName(p.name)));
+  }
+  return [];
+}
+
+/**
+ * `model: { prop: 'checked', event: 'change' }`, either is optional
+ */
+function getModel(compType: ts.Type | undefined, checker: ts.TypeChecker): ModelInfo | undefined {
+  const model = getOptionInitializer(compType, 'model', checker);
+  if (!model || !ts.isObjectLiteralExpression(model)) {
+    return undefined;
+  }
+  const info: ModelInfo = { prop: 'value', event: 'input' };
+  model.properties.forEach(p => {
+    const name = p.name && getMemberName(p.name);
+    if ((name === 'prop' || name === 'event') && ts.isPropertyAssignment(p) && ts.isStringLiteral(p.initializer)) {
+      info[name] = p.initializer.text;
+    }
   });
   return info;
 }
 
+function getOptionInitializer(compType: ts.Type | undefined, option: string, checker: ts.TypeChecker) {
+  const symbol = compType && checker.getPropertyOfType(compType, option);
+  const declaration = symbol && symbol.valueDeclaration;
+  return declaration && ts.isPropertyAssignment(declaration) ? declaration.initializer : undefined;
+}
+
+interface TemplateInfo {
+  slots: SlotInfo[];
+  // `$emit('event')` in template expressions
+  events: string[];
+}
+
+const templateInfoCache = new Map<string, { mtime: number; info: TemplateInfo }>();
+
+function getTemplateInfo(fileName: string): TemplateInfo {
+  const empty: TemplateInfo = { slots: [], events: [] };
+  if (!fileName.endsWith('.vue') || !fs.existsSync(fileName)) {
+    return empty;
+  }
+  const mtime = fs.statSync(fileName).mtime.getTime();
+  const cached = templateInfoCache.get(fileName);
+  if (cached && cached.mtime === mtime) {
+    return cached.info;
+  }
+
+  const vueDocument = TextDocument.create(Uri.file(fileName).toString(), 'vue', 0, fs.readFileSync(fileName, 'utf-8'));
+  const template = getDocumentRegions(vueDocument).getEmbeddedDocument('vue-html');
+  const info: TemplateInfo = { slots: [], events: [] };
+  function walk(node: Node) {
+    if (node.tag === 'slot') {
+      const attributes = node.attributes || {};
+      const name = attributes.name ? removeQuotes(attributes.name) : 'default';
+      const props = Object.keys(attributes)
+        .filter(attr => /^(:|v-bind:)/.test(attr) && attr !== ':name' && attr !== 'v-bind:name')
+        .map(attr => attr.replace(/^(:|v-bind:)/, ''));
+      if (!info.slots.some(slot => slot.name === name)) {
+        info.slots.push({ name, props });
+      }
+    }
+    node.children.forEach(walk);
+  }
+  parseHTMLDocument(template).roots.forEach(walk);
+
+  const emitRE = /\$emit\(\s*(['"])([^'"]+)\1/g;
+  const text = template.getText();
+  let match: RegExpExecArray | null;
+  while ((match = emitRE.exec(text))) {
+    info.events.push(match[2]);
+  }
+
+  templateInfoCache.set(fileName, { mtime, info });
+  return info;
+}
+
 function getPropTypeDeclaration(prop: ts.Symbol, checker: ts.TypeChecker) {
   if (!prop.valueDeclaration) {
     return '';
@@ -116,22 +781,62 @@ function getPropTypeDeclaration(prop: ts.Symbol, checker: ts.TypeChecker) {
   if (!declaration) {
     return '';
   }
-  if (declaration.kind === ts.SyntaxKind.ObjectLiteralExpression) {
+  return getPropOptionsText(declaration);
+}
+
+function getPropOptionsText(options: ts.Node) {
+  if (options.kind === ts.SyntaxKind.ObjectLiteralExpression) {
     const text: string[] = [];
-    declaration.forEachChild(n => {
+    options.forEachChild(n => {
       text.push(n.getText());
     });
     return text.join('\n');
   }
-  return declaration.getText();
+  return options.getText();
+}
+
+/**
+ * `type` and `required` of `prop: Number`, `prop: [String, Number]` or `prop: { type: Number, required: true }`
+ */
+function getPropOptions(initializer: ts.Expression): Pick<PropInfo, 'type' | 'required'> {
+  if (!ts.isObjectLiteralExpression(initializer)) {
+    const type = getPropTypeNames(initializer);
+    return type ? { type } : {};
+  }
+  const options: Pick<PropInfo, 'type' | 'required'> = {};
+  initializer.properties.forEach(p => {
+    if (!ts.isPropertyAssignment(p)) {
+      return;
+    }
+    const name = getMemberName(p.name);
+    if (name === 'type') {
+      const type = getPropTypeNames(p.initializer);
+      if (type) {
+        options.type = type;
+      }
+    } else if (name === 'required' && p.initializer.kind === ts.SyntaxKind.TrueKeyword) {
+      options.required = true;
+    }
+  });
+  return options;
+}
+
+function getPropTypeNames(expr: ts.Expression): string[] | undefined {
+  if (ts.isIdentifier(expr)) {
+    return [expr.text];
+  }
+  if (ts.isArrayLiteralExpression(expr) && expr.elements.every(ts.isIdentifier)) {
+    return expr.elements.map(e => (e as ts.Identifier).text);
+  }
+  return undefined;
 }
 
 function isStringLiteral(e: ts.Expression): e is ts.StringLiteral {
     return e.kind === ts.SyntaxKind.StringLiteral;
 }
 
-function getArrayProps(compType: ts.Type, checker: ts.TypeChecker) {
-  const propSymbol = checker.getPropertyOfType(compType, 'props');
+function getArrayProps(compType: ts.Type | undefined, checker: ts.TypeChecker) {
+  const propSymbol = compType && checker.getPropertyOfType(compType, 'props');
   if (!propSymbol || !propSymbol.valueDeclaration) {
     return undefined;
   }
@@ -142,11 +847,11 @@ function getArrayProps(compType: ts.Type, checker: ts.TypeChecker) {
   const propArray = propDef as ts.ArrayLiteralExpression;
   return propArray.elements
     .filter(isStringLiteral)
-    .map(e => ({ name: hyphenate(e.text) }));
+    .map(e => ({ name: hyphenate(e.text), definition: getDeclarationLocation(e) }));
 }
 
-function getPropertyTypeOfType(tpe: ts.Type, property: string, checker: ts.TypeChecker) {
-  const propSymbol = checker.getPropertyOfType(tpe, property);
+function getPropertyTypeOfType(tpe: ts.Type | undefined, property: string, checker: ts.TypeChecker) {
+  const propSymbol = tpe && checker.getPropertyOfType(tpe, property);
   return getSymbolType(propSymbol, checker);
 }
 
@@ -156,8 +861,3 @@ function getSymbolType(symbol: ts.Symbol | undefined, checker: ts.TypeChecker) {
   }
   return checker.getTypeOfSymbolAtLocation(symbol, symbol.valueDeclaration);
 }
-
-const hyphenateRE = /\B([A-Z])/g;
-function hyphenate(word: string) {
-  return word.replace(hyphenateRE, '-$1').toLowerCase();
-}
@@ -20,50 +20,303 @@ import {
   DocumentHighlightKind,
   CompletionList,
   Position,
-  FormattingOptions
+  FormattingOptions,
+  WorkspaceEdit,
+  Command,
+  CodeActionContext
 } from 'vscode-languageserver-types';
-import { LanguageMode } from '../languageModes';
-import { VueDocumentRegions, LanguageRange } from '../embeddedSupport';
-import { getServiceHost } from './serviceHost';
-import { findComponents, ComponentInfo } from './findComponents';
+import {
+  LanguageMode,
+  RefactorArgs,
+  FileRename,
+  APPLY_WORKSPACE_EDIT,
+  APPLY_REFACTOR,
+  ORGANIZE_IMPORTS
+} from '../languageModes';
+import { VueDocumentRegions, LanguageRange, getDocumentRegions } from '../embeddedSupport';
+import { getServiceHost, getTemplateFileName, getNormalizedFileFsPath, isTemplateFile } from './serviceHost';
+import {
+  findComponents,
+  findGlobalComponents,
+  findPropDeclarations,
+  findEmittedEvents,
+  findComponentRegistrations,
+  ComponentInfo,
+  ComponentMember
+} from './findComponents';
+import { doPropValidation } from './propValidation';
+import {
+  UNUSED_COMPONENT,
+  ImportableComponent,
+  getComponentName,
+  getImportPath,
+  isWrittenImport,
+  doUnusedComponentValidation,
+  doUnregisteredComponentValidation,
+  removeComponentRegistration,
+  addComponentRegistration
+} from './componentRegistration';
+import { isVue, getScriptDocument, getExternalScript } from './preprocess';
+import { getFileRenameEdits } from './fileRename';
+import * as bridge from './bridge';
+import {
+  TemplateCode,
+  generateTemplateCode,
+  toOriginalOffset,
+  toGeneratedOffset
+} from '../template/services/templateCode';
+import { findComponentAttributes, ComponentAttribute } from '../template/services/componentAttributes';
+import { parseHTMLDocument } from '../template/parser/htmlParser';
 import { prettierify, prettierEslintify } from '../../utils/prettier';
 import { getFileFsPath, getFilePath } from '../../utils/paths';
+import { hyphenate, camelize, matchesQuery } from '../../utils/strings';
 
 import Uri from 'vscode-uri';
+import * as path from 'path';
 import * as ts from 'typescript';
 import * as _ from 'lodash';
 
-import { nullMode, NULL_SIGNATURE, NULL_COMPLETION } from '../nullMode';
+import { nullMode, NULL_SIGNATURE, NULL_COMPLETION, NULL_HOVER } from '../nullMode';
 
 // Todo: After upgrading to LS server 4.0, use CompletionContext for filtering trigger chars
 // https://microsoft.github.io/language-server-protocol/specification#completion-request-leftwards_arrow_with_hook
 const NON_SCRIPT_TRIGGERS = ['<', '/', '*', ':'];
 
+// Diagnostics about unused declarations are noise in generated template code, e.g. an unused `v-for` index
+const IGNORED_TEMPLATE_DIAGNOSTICS = [6133, 6138, 6192, 6196, 6198, 7027, 7028];
+
 export interface ScriptMode extends LanguageMode {
   findComponents(document: TextDocument): ComponentInfo[];
+  doTemplateValidation(document: TextDocument, templateCode: TemplateCode): Diagnostic[];
+  doTemplateComplete(document: TextDocument, templateCode: TemplateCode, position: Position): CompletionList;
+  doTemplateResolve(document: TextDocument, item: CompletionItem): CompletionItem;
+  findImportableComponents(document: TextDocument): ImportableComponent[];
+  doTemplateHover(document: TextDocument, templateCode: TemplateCode, position: Position): Hover;
+  findTemplateDefinition(document: TextDocument, templateCode: TemplateCode, position: Position): Definition;
+  findTemplateReferences(document: TextDocument, templateCode: TemplateCode, position: Position): Location[];
+  prepareTemplateRename(document: TextDocument, templateCode: TemplateCode, position: Position): Range | null;
+  doTemplateRename(
+    document: TextDocument,
+    templateCode: TemplateCode,
+    position: Position,
+    newName: string
+  ): WorkspaceEdit;
+  doComponentAttributeRename(document: TextDocument, attribute: ComponentAttribute, newName: string): WorkspaceEdit;
+  // projects are created again when a tsconfig.json, jsconfig.json or package.json changes
+  onDidChangeProject(listener: () => void): void;
+  // a file or directory of the workspace is added or deleted
+  onDidAddOrRemoveFiles(listener: () => void): void;
+  // added and deleted files joined or left their projects
+  onDidUpdateFiles(listener: () => void): void;
+  // resolves once changes of files in the workspace are tracked
+  whenWatcherReady(): Promise<void>;
 }
 
+type ComponentMemberKind = 'prop' | 'event';
+
 export function getJavascriptMode(
   documentRegions: LanguageModelCache<VueDocumentRegions>,
   workspacePath: string | null | undefined
 ): ScriptMode {
   if (!workspacePath) {
-    return { ...nullMode, findComponents: () => [] };
+    return {
+      ...nullMode,
+      findComponents: () => [],
+      doTemplateValidation: () => [],
+      doTemplateComplete: () => NULL_COMPLETION,
+      doTemplateResolve: (doc, item) => item,
+      findImportableComponents: () => [],
+      doTemplateHover: () => NULL_HOVER,
+      findTemplateDefinition: () => [],
+      findTemplateReferences: () => [],
+      prepareTemplateRename: () => null,
+      doTemplateRename: () => ({ changes: {} }),
+      doComponentAttributeRename: () => ({ changes: {} }),
+      onDidChangeProject: () => {},
+      onDidAddOrRemoveFiles: () => {},
+      onDidUpdateFiles: () => {},
+      whenWatcherReady: () => Promise.resolve()
+    };
   }
-  const jsDocuments = getLanguageModelCache(10, 60, document => {
-    const vueDocument = documentRegions.get(document);
-    return vueDocument.getEmbeddedDocumentByType('script');
-  });
+  const jsDocuments = getLanguageModelCache(10, 60, document =>
+    getScriptDocument(document, documentRegions.get(document))
+  );
 
   const regionStart = getLanguageModelCache(10, 60, document => {
     const vueDocument = documentRegions.get(document);
     return vueDocument.getLanguageRangeByType('script');
   });
 
+  // Template code for finding usages in `<template>` from requests in `<script>`
+  const templateCodes = getLanguageModelCache(10, 60, document => {
+    const templateDoc = documentRegions.get(document).getEmbeddedDocument('vue-html');
+    return generateTemplateCode(templateDoc, parseHTMLDocument(templateDoc));
+  });
+
   const serviceHost = getServiceHost(workspacePath, jsDocuments);
-  const { updateCurrentTextDocument } = serviceHost;
+  const { updateCurrentTextDocument, updateTemplateDocument, getServices } = serviceHost;
   let config: any = {};
 
+  function updateTemplateModule(doc: TextDocument, templateCode: TemplateCode) {
+    const templateModule = getTemplateModule(getFileFsPath(doc.uri), templateCode);
+    const { service, templateFileFsPath } = updateTemplateDocument(doc, templateModule.code);
+    return { service, templateFileFsPath, moduleOffset: templateModule.offset };
+  }
+
+  // code actions are not requested with editor options, so inserted code is indented by 2 spaces
+  function getFormatCodeSettings(scriptDoc: TextDocument): ts.FormatCodeSettings {
+    const language = scriptDoc.languageId === 'javascript' ? 'javascript' : 'typescript';
+    const initialIndentLevel = _.get(config, ['vetur', 'format', 'scriptInitialIndent']) ? 1 : 0;
+    return convertOptions(
+      { ..._.get(config, [language, 'format']) },
+      { tabSize: 2, insertSpaces: true },
+      initialIndentLevel
+    );
+  }
+
+  /**
+   * Convert edits of code fixes and refactors, which may also change other files
+   */
+  function convertFileTextChanges(
+    doc: TextDocument,
+    fileTextChanges: ReadonlyArray<ts.FileTextChanges>,
+    program: ts.Program
+  ): WorkspaceEdit {
+    const fileFsPath = getFileFsPath(doc.uri);
+    const changes: { [uri: string]: TextEdit[] } = {};
+    for (const fileChange of fileTextChanges) {
+      const uri = Uri.file(fileChange.fileName).toString();
+      const isCurrentFile = getFileFsPath(uri) === fileFsPath;
+      const changedDoc = isCurrentFile ? doc : getSourceDoc(fileChange.fileName, program);
+      let region: LanguageRange | undefined;
+      if (isCurrentFile) {
+        region = regionStart.get(doc);
+      } else if (isVue(fileChange.fileName)) {
+        region = getDocumentRegions(readDocument(fileChange.fileName)).getLanguageRangeByType('script');
+      }
+      fileChange.textChanges.forEach(tc =>
+        addEdit(changes, isCurrentFile ? doc.uri : uri, convertTextChange(changedDoc, tc, region))
+      );
+    }
+    return { changes };
+  }
+
+  function renameSymbol(
+    service: ts.LanguageService,
+    doc: TextDocument,
+    templateCode: TemplateCode,
+    moduleOffset: number,
+    fileName: string,
+    offset: number,
+    newName: string,
+    openDoc = doc
+  ): WorkspaceEdit {
+    const renameLocations = service.findRenameLocations(fileName, offset, false, false);
+    if (!renameLocations) {
+      return { changes: {} };
+    }
+    const program = service.getProgram();
+    const locations = convertLocations(doc, templateCode, moduleOffset, program, renameLocations);
+    const changes: { [uri: string]: TextEdit[] } = {};
+    locations.forEach(l => addEdit(changes, l.uri, TextEdit.replace(l.range, newName)));
+
+    // A renamed prop is also renamed where parent components pass it
+    const fileFsPath = getFileFsPath(doc.uri);
+    const sourceFile = program.getSourceFile(fileFsPath);
+    const prop =
+      sourceFile &&
+      findPropDeclarations(sourceFile).find(p =>
+        locations.some(l => getFileFsPath(l.uri) === fileFsPath && doc.offsetAt(l.range.start) === p.start)
+      );
+    if (prop) {
+      addAttributeEdits(service, openDoc, fileFsPath, 'prop', prop.name, newName, changes);
+    }
+    return { changes };
+  }
+
+  /**
+   * Rename props declared as strings or emitted events, which the language service does not track
+   */
+  function renameLiteralMembers(
+    service: ts.LanguageService,
+    openDoc: TextDocument,
+    componentFsPath: string,
+    kind: ComponentMemberKind,
+    oldName: string,
+    newName: string
+  ): WorkspaceEdit {
+    const program = service.getProgram();
+    const sourceFile = program.getSourceFile(componentFsPath);
+    if (!sourceFile) {
+      return { changes: {} };
+    }
+    const changes: { [uri: string]: TextEdit[] } = {};
+    const componentDoc = getSourceDoc(componentFsPath, program);
+    const componentUri = Uri.file(componentFsPath).toString();
+    const members = kind === 'event' ? findEmittedEvents(sourceFile) : findPropDeclarations(sourceFile);
+    members.filter(m => m.isLiteral && m.name === oldName).forEach(m => {
+      const range = Range.create(componentDoc.positionAt(m.start), componentDoc.positionAt(m.end));
+      addEdit(changes, componentUri, TextEdit.replace(range, newName));
+    });
+
+    if (kind === 'event' && isVue(componentFsPath)) {
+      // `$emit` can also be called in the component's own template
+      const vueDoc = getFileFsPath(openDoc.uri) === componentFsPath ? openDoc : readDocument(componentFsPath);
+      const templateCode = templateCodes.get(vueDoc);
+      findTemplateEmittedEvents(templateCode)
+        .filter(m => m.name === oldName)
+        .forEach(m => {
+          const start = toOriginalOffset(templateCode.mappings, m.start);
+          const end = toOriginalOffset(templateCode.mappings, m.end);
+          if (start !== undefined && end !== undefined) {
+            const range = Range.create(vueDoc.positionAt(start), vueDoc.positionAt(end));
+            addEdit(changes, vueDoc.uri, TextEdit.replace(range, newName));
+          }
+        });
+    }
+
+    addAttributeEdits(service, openDoc, componentFsPath, kind, oldName, newName, changes);
+    return { changes };
+  }
+
+  /**
+   * Rename `:prop` and `@event` attributes on the tags of the component in all templates
+   */
+  function addAttributeEdits(
+    service: ts.LanguageService,
+    openDoc: TextDocument,
+    componentFsPath: string,
+    kind: ComponentMemberKind,
+    oldName: string,
+    newName: string,
+    changes: { [uri: string]: TextEdit[] }
+  ) {
+    const componentUri = Uri.file(componentFsPath).toString();
+    const vueFileNames = service.getProgram().getRootFileNames().filter(isVue);
+    for (const fileName of vueFileNames) {
+      const tags = findAllComponents(service, fileName)
+        .filter(c => _.castArray(c.definition || []).some(d => d.uri === componentUri))
+        .map(c => c.name);
+      if (tags.length === 0) {
+        continue;
+      }
+      const vueDoc = getFilePath(openDoc.uri) === fileName ? openDoc : readDocument(fileName);
+      const templateDoc = getDocumentRegions(vueDoc).getEmbeddedDocument('vue-html');
+      for (const attr of findComponentAttributes(templateDoc, parseHTMLDocument(templateDoc))) {
+        if (attr.kind !== kind || !tags.includes(hyphenate(attr.tag))) {
+          continue;
+        }
+        if (kind === 'prop' ? camelize(attr.name) !== camelize(oldName) : attr.name !== oldName) {
+          continue;
+        }
+        // keep the case style of the attribute, `my-prop` or `myProp`
+        const name = kind === 'prop' && attr.name === attr.name.toLowerCase() ? hyphenate(newName) : newName;
+        const range = Range.create(vueDoc.positionAt(attr.offset), vueDoc.positionAt(attr.offset + attr.name.length));
+        addEdit(changes, vueDoc.uri, TextEdit.replace(range, name));
+      }
+    }
+  }
+
   return {
     getId() {
       return 'javascript';
@@ -72,7 +325,7 @@ export function getJavascriptMode(
       config = c;
     },
     doValidation(doc: TextDocument): Diagnostic[] {
-      const { scriptDoc, service } = updateCurrentTextDocument(doc);
+      const { scriptDoc, service, isInferred } = updateCurrentTextDocument(doc);
       if (!languageServiceIncludesFile(service, doc.uri)) {
         return [];
       }
@@ -83,15 +336,50 @@ export function getJavascriptMode(
         ...service.getSemanticDiagnostics(fileFsPath)
       ];
 
-      return diagnostics.map(diag => {
+      // the only statement of an external script is the re-export, whose errors are about `src`
+      const externalScript = getExternalScript(documentRegions.get(doc));
+      const result: Diagnostic[] = diagnostics.map(diag => {
         // syntactic/semantic diagnostic always has start and length
         // so we can safely cast diag to TextSpan
         return {
-          range: convertRange(scriptDoc, diag as ts.TextSpan),
+          range: externalScript
+            ? Range.create(doc.positionAt(externalScript.start), doc.positionAt(externalScript.end))
+            : convertRange(scriptDoc, diag as ts.TextSpan),
           severity: DiagnosticSeverity.Error,
+          code: diag.code,
           message: ts.flattenDiagnosticMessageText(diag.messageText, '\n')
         };
       });
+
+      // registrations can only be checked against html templates
+      const vueDocument = documentRegions.get(doc);
+      const templateRange = vueDocument.getLanguageRangeByType('template');
+      if (templateRange && templateRange.languageId === 'vue-html') {
+        const sourceFile = service.getProgram().getSourceFile(fileFsPath)!;
+        const templateDoc = vueDocument.getEmbeddedDocument('vue-html');
+        result.push(
+          ...doUnusedComponentValidation(
+            scriptDoc,
+            sourceFile,
+            findComponentRegistrations(sourceFile),
+            parseHTMLDocument(templateDoc)
+          )
+        );
+      }
+      if (isInferred) {
+        const region = regionStart.get(doc);
+        const start = region ? region.start : Position.create(0, 0);
+        const configFileName = serviceHost.getConfigFileName(getFileFsPath(doc.uri));
+        const reason = configFileName
+          ? `not included by ${path.relative(workspacePath!, configFileName)}`
+          : 'outside the workspace';
+        result.push({
+          range: Range.create(start, start),
+          severity: DiagnosticSeverity.Information,
+          message: `This file is ${reason}, so its script is checked with default compiler options`
+        });
+      }
+      return result;
     },
     doComplete(doc: TextDocument, position: Position): CompletionList {
       const { scriptDoc, service } = updateCurrentTextDocument(doc);
@@ -173,15 +461,9 @@ export function getJavascriptMode(
       const fileFsPath = getFileFsPath(doc.uri);
       const info = service.getQuickInfoAtPosition(fileFsPath, scriptDoc.offsetAt(position));
       if (info) {
-        const display = ts.displayPartsToString(info.displayParts);
-        const doc = ts.displayPartsToString(info.documentation);
-        const markedContents: MarkedString[] = [{ language: 'ts', value: display }];
-        if (doc) {
-          markedContents.unshift(doc, '\n');
-        }
         return {
           range: convertRange(scriptDoc, info.textSpan),
-          contents: markedContents
+          contents: convertQuickInfo(info)
         };
       }
       return { contents: [] };
@@ -287,6 +569,14 @@ export function getJavascriptMode(
       items.forEach(item => collectSymbols(item));
       return result;
     },
+    findWorkspaceSymbols(query: string): SymbolInformation[] {
+      // files shared by several projects, such as declaration files, are listed once
+      const symbols = _.flatMap(getServices(), service => findServiceSymbols(service, query));
+      return _.uniqBy(symbols, s => {
+        const { line, character } = s.location.range.start;
+        return [s.name, s.location.uri, line, character].join();
+      });
+    },
     findDefinition(doc: TextDocument, position: Position): Definition {
       const { scriptDoc, service } = updateCurrentTextDocument(doc);
       if (!languageServiceIncludesFile(service, doc.uri)) {
@@ -317,23 +607,44 @@ export function getJavascriptMode(
       }
 
       const fileFsPath = getFileFsPath(doc.uri);
+      const templateCode = templateCodes.get(doc);
+      const { moduleOffset } = updateTemplateModule(doc, templateCode);
       const references = service.getReferencesAtPosition(fileFsPath, scriptDoc.offsetAt(position));
       if (!references) {
         return [];
       }
+      return convertLocations(doc, templateCode, moduleOffset, service.getProgram(), references);
+    },
+    prepareRename(doc: TextDocument, position: Position): Range | null {
+      const { scriptDoc, service } = updateCurrentTextDocument(doc);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return null;
+      }
 
-      const referenceResults: Location[] = [];
-      const program = service.getProgram();
-      references.forEach(r => {
-        const referenceTargetDoc = getSourceDoc(r.fileName, program);
-        if (referenceTargetDoc) {
-          referenceResults.push({
-            uri: Uri.file(r.fileName).toString(),
-            range: convertRange(referenceTargetDoc, r.textSpan)
-          });
-        }
-      });
-      return referenceResults;
+      const fileFsPath = getFileFsPath(doc.uri);
+      const offset = scriptDoc.offsetAt(position);
+      const literal = findLiteralMemberAt(service.getProgram().getSourceFile(fileFsPath)!, offset);
+      if (literal) {
+        return Range.create(scriptDoc.positionAt(literal.member.start), scriptDoc.positionAt(literal.member.end));
+      }
+      const info = service.getRenameInfo(fileFsPath, offset);
+      return info.canRename ? convertRange(scriptDoc, info.triggerSpan) : null;
+    },
+    doRename(doc: TextDocument, position: Position, newName: string): WorkspaceEdit {
+      const { scriptDoc, service } = updateCurrentTextDocument(doc);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return { changes: {} };
+      }
+
+      const fileFsPath = getFileFsPath(doc.uri);
+      const offset = scriptDoc.offsetAt(position);
+      const literal = findLiteralMemberAt(service.getProgram().getSourceFile(fileFsPath)!, offset);
+      if (literal) {
+        return renameLiteralMembers(service, doc, fileFsPath, literal.kind, literal.member.name, newName);
+      }
+      const templateCode = templateCodes.get(doc);
+      const { moduleOffset } = updateTemplateModule(doc, templateCode);
+      return renameSymbol(service, doc, templateCode, moduleOffset, fileFsPath, offset, newName);
     },
     format(doc: TextDocument, range: Range, formatParams: FormattingOptions): TextEdit[] {
       const { scriptDoc, service } = updateCurrentTextDocument(doc);
@@ -383,26 +694,633 @@ export function getJavascriptMode(
         return result;
       }
     },
+    getCodeActions(doc: TextDocument, range: Range, context: CodeActionContext): Command[] {
+      const { scriptDoc, service } = updateCurrentTextDocument(doc);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return [];
+      }
+
+      const fileFsPath = getFileFsPath(doc.uri);
+      const program = service.getProgram();
+      const sourceFile = program.getSourceFile(fileFsPath)!;
+      const formatSettings = getFormatCodeSettings(scriptDoc);
+      const supportedCodes = ts.getSupportedCodeFixes();
+      const commands: Command[] = [];
+      for (const diagnostic of context.diagnostics) {
+        if (diagnostic.code === UNUSED_COMPONENT) {
+          const offset = scriptDoc.offsetAt(diagnostic.range.start);
+          const registration = findComponentRegistrations(sourceFile).find(
+            r => r.property.name!.getStart(sourceFile) === offset
+          );
+          if (registration) {
+            const textChanges = removeComponentRegistration(sourceFile, registration, program.getTypeChecker());
+            const edit = convertFileTextChanges(doc, [{ fileName: fileFsPath, textChanges }], program);
+            commands.push(Command.create(`Remove unused component '${registration.name}'`, APPLY_WORKSPACE_EDIT, edit));
+          }
+          continue;
+        }
+        if (typeof diagnostic.code !== 'number' || !supportedCodes.includes(String(diagnostic.code))) {
+          continue;
+        }
+        const start = scriptDoc.offsetAt(diagnostic.range.start);
+        const end = scriptDoc.offsetAt(diagnostic.range.end);
+        const fixes = service.getCodeFixesAtPosition(fileFsPath, start, end, [diagnostic.code], formatSettings);
+        for (const fix of fixes) {
+          const edit = convertFileTextChanges(doc, fix.changes, program);
+          commands.push(Command.create(fix.description, APPLY_WORKSPACE_EDIT, edit));
+        }
+      }
+
+      const start = scriptDoc.offsetAt(range.start);
+      const end = scriptDoc.offsetAt(range.end);
+      const refactors = service.getApplicableRefactors(fileFsPath, start === end ? start : { pos: start, end });
+      for (const refactor of refactors) {
+        for (const action of refactor.actions) {
+          const args: RefactorArgs = { uri: doc.uri, range, refactorName: refactor.name, actionName: action.name };
+          commands.push(Command.create(action.description, APPLY_REFACTOR, args));
+        }
+      }
+
+      if (sourceFile.statements.some(isWrittenImport)) {
+        commands.push(Command.create('Organize Imports', ORGANIZE_IMPORTS, doc.uri));
+      }
+      return commands;
+    },
+    getRefactorEdits(doc: TextDocument, args: RefactorArgs): WorkspaceEdit {
+      const { scriptDoc, service } = updateCurrentTextDocument(doc);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return { changes: {} };
+      }
+
+      const fileFsPath = getFileFsPath(doc.uri);
+      const start = scriptDoc.offsetAt(args.range.start);
+      const end = scriptDoc.offsetAt(args.range.end);
+      const info = service.getEditsForRefactor(
+        fileFsPath,
+        getFormatCodeSettings(scriptDoc),
+        start === end ? start : { pos: start, end },
+        args.refactorName,
+        args.actionName
+      );
+      return info ? convertFileTextChanges(doc, info.edits, service.getProgram()) : { changes: {} };
+    },
+    organizeImports(doc: TextDocument): WorkspaceEdit {
+      const { scriptDoc, service } = updateCurrentTextDocument(doc);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return { changes: {} };
+      }
+
+      const fileFsPath = getFileFsPath(doc.uri);
+      // TypeScript doesn't count shorthands like `components: { Foo }` as usages of `Foo`,
+      // so organize a copy of the script that uses registered components explicitly
+      const registrations = findComponentRegistrations(service.getProgram().getSourceFile(fileFsPath)!);
+      const componentNames = _.compact(registrations.map(r => r.variable && r.variable.text));
+      const organizeService =
+        componentNames.length > 0
+          ? serviceHost.createScratchService(doc, scriptDoc.getText() + `\n;[${componentNames.join(', ')}];\n`)
+          : service;
+      try {
+        const program = organizeService.getProgram();
+        const fileTextChanges = organizeService.organizeImports(
+          { type: 'file', fileName: fileFsPath },
+          getFormatCodeSettings(scriptDoc)
+        );
+        fileTextChanges.forEach(fileChange => {
+          const sourceFile = program.getSourceFile(fileChange.fileName)!;
+          fileChange.textChanges = moveBridgeImportChange(sourceFile, fileChange.textChanges);
+        });
+        // imports end before the appended usages, so the changes apply to `doc` as well
+        return convertFileTextChanges(doc, fileTextChanges, program);
+      } finally {
+        if (organizeService !== service) {
+          organizeService.dispose();
+        }
+      }
+    },
+    getFileRenameEdits(renames: FileRename[], openDocuments: TextDocument[]): WorkspaceEdit {
+      const fsPathRenames = renames.map(r => ({
+        oldFsPath: getFileFsPath(r.oldUri),
+        newFsPath: getFileFsPath(r.newUri)
+      }));
+      const changes: { [uri: string]: TextEdit[] } = {};
+      getServices().forEach(service => {
+        const program = service.getProgram();
+        program.getSourceFiles().forEach(sourceFile => {
+          const fileName = sourceFile.fileName;
+          if (
+            sourceFile.isDeclarationFile ||
+            program.isSourceFileFromExternalLibrary(sourceFile) ||
+            isTemplateFile(fileName) ||
+            fileName === bridge.fileName
+          ) {
+            return;
+          }
+          // edits apply to the text in the editor, which may differ from the saved file
+          const uri = Uri.file(fileName).toString();
+          const document = openDocuments.find(d => d.uri === uri) || readDocument(fileName);
+          const edits = getFileRenameEdits(document, fsPathRenames);
+          if (edits.length > 0) {
+            changes[uri] = edits;
+          }
+        });
+      });
+      return { changes };
+    },
     findComponents(doc: TextDocument) {
       const { service } = updateCurrentTextDocument(doc);
       const fileFsPath = getFileFsPath(doc.uri);
-      return findComponents(service, fileFsPath);
+      return findAllComponents(service, fileFsPath);
+    },
+    doTemplateValidation(doc: TextDocument, templateCode: TemplateCode): Diagnostic[] {
+      const { service, templateFileFsPath, moduleOffset } = updateTemplateModule(doc, templateCode);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return [];
+      }
+
+      const diagnostics = [
+        ...service.getSyntacticDiagnostics(templateFileFsPath),
+        ...service.getSemanticDiagnostics(templateFileFsPath)
+      ];
+      const result: Diagnostic[] = [];
+      for (const diag of diagnostics) {
+        if (IGNORED_TEMPLATE_DIAGNOSTICS.includes(diag.code)) {
+          continue;
+        }
+        const range = convertTemplateRange(doc, templateCode, moduleOffset, diag as ts.TextSpan);
+        if (!range) {
+          continue;
+        }
+        result.push({
+          range,
+          severity: DiagnosticSeverity.Error,
+          message: ts.flattenDiagnosticMessageText(diag.messageText, '\n')
+        });
+      }
+
+      const program = service.getProgram();
+      const templateSourceFile = program.getSourceFile(templateFileFsPath);
+      if (templateSourceFile) {
+        const templateDoc = documentRegions.get(doc).getEmbeddedDocument('vue-html');
+        const templateModule = {
+          sourceFile: templateSourceFile,
+          offset: moduleOffset,
+          checker: program.getTypeChecker()
+        };
+        const fileFsPath = getFileFsPath(doc.uri);
+        const htmlDocument = parseHTMLDocument(templateDoc);
+        const components = findAllComponents(service, fileFsPath);
+        const checkUnknownAttributes = !!_.get(config, ['vetur', 'validation', 'unknownComponentAttributes']);
+        result.push(
+          ...doPropValidation(
+            templateDoc,
+            htmlDocument,
+            templateCode,
+            templateModule,
+            components,
+            checkUnknownAttributes
+          )
+        );
+        const vueFileNames = program.getRootFileNames().filter(isVue);
+        result.push(
+          ...doUnregisteredComponentValidation(templateDoc, htmlDocument, components, fileFsPath, vueFileNames)
+        );
+      }
+      return result;
+    },
+    doTemplateComplete(doc: TextDocument, templateCode: TemplateCode, position: Position): CompletionList {
+      const generatedOffset = toGeneratedOffset(templateCode.mappings, doc.offsetAt(position));
+      if (generatedOffset === undefined) {
+        return NULL_COMPLETION;
+      }
+      const { service, templateFileFsPath, moduleOffset } = updateTemplateModule(doc, templateCode);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return NULL_COMPLETION;
+      }
+
+      const offset = moduleOffset + generatedOffset;
+      const completions = service.getCompletionsAtPosition(templateFileFsPath, offset, {
+        includeExternalModuleExports: false,
+        includeInsertTextCompletions: false
+      });
+      if (!completions) {
+        return NULL_COMPLETION;
+      }
+      const entries = completions.entries.filter(entry => !entry.name.startsWith('__vls'));
+      return {
+        isIncomplete: false,
+        items: entries.map((entry, index) => {
+          const span = entry.replacementSpan;
+          const range = span && convertTemplateRange(doc, templateCode, moduleOffset, span);
+          return {
+            uri: doc.uri,
+            position,
+            label: entry.name,
+            sortText: entry.sortText + index,
+            kind: convertKind(entry.kind),
+            textEdit: range && TextEdit.replace(range, entry.name),
+            data: {
+              // data used for resolving item details (see 'doTemplateResolve')
+              languageId: 'vue-html',
+              uri: doc.uri,
+              offset,
+              source: entry.source
+            }
+          };
+        })
+      };
+    },
+    doTemplateResolve(doc: TextDocument, item: CompletionItem): CompletionItem {
+      const { service } = updateCurrentTextDocument(doc);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return item;
+      }
+
+      // a tag of a component from `findImportableComponents`
+      if (item.data.componentFileName) {
+        const fileFsPath = getFileFsPath(doc.uri);
+        const program = service.getProgram();
+        const componentFileName: string = item.data.componentFileName;
+        const textChanges = addComponentRegistration(
+          program.getSourceFile(fileFsPath)!,
+          getComponentName(componentFileName),
+          getImportPath(fileFsPath, componentFileName)
+        );
+        const edit = convertFileTextChanges(doc, [{ fileName: fileFsPath, textChanges }], program);
+        item.additionalTextEdits = edit.changes![doc.uri];
+        delete item.data;
+        return item;
+      }
+
+      const templateFileFsPath = getTemplateFileName(getFileFsPath(doc.uri));
+      const details = service.getCompletionEntryDetails(
+        templateFileFsPath,
+        item.data.offset,
+        item.label,
+        /*formattingOption*/ {},
+        item.data.source
+      );
+      if (details) {
+        item.detail = ts.displayPartsToString(details.displayParts);
+        item.documentation = ts.displayPartsToString(details.documentation);
+        delete item.data;
+      }
+      return item;
+    },
+    findImportableComponents(doc: TextDocument): ImportableComponent[] {
+      const { service } = updateCurrentTextDocument(doc);
+      // imports are added to `<script>`
+      if (!languageServiceIncludesFile(service, doc.uri) || !regionStart.get(doc)) {
+        return [];
+      }
+
+      const fileFsPath = getFileFsPath(doc.uri);
+      const registeredNames = findAllComponents(service, fileFsPath).map(c => c.name);
+      registeredNames.push(hyphenate(getComponentName(fileFsPath)));
+      const components = service
+        .getProgram()
+        .getRootFileNames()
+        .filter(isVue)
+        .map(fileName => ({
+          name: hyphenate(getComponentName(fileName)),
+          fileName,
+          importPath: getImportPath(fileFsPath, fileName)
+        }));
+      return _.uniqBy(components.filter(c => !registeredNames.includes(c.name)), 'name');
+    },
+    doTemplateHover(doc: TextDocument, templateCode: TemplateCode, position: Position): Hover {
+      const generatedOffset = toGeneratedOffset(templateCode.mappings, doc.offsetAt(position));
+      if (generatedOffset === undefined) {
+        return { contents: [] };
+      }
+      const { service, templateFileFsPath, moduleOffset } = updateTemplateModule(doc, templateCode);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return { contents: [] };
+      }
+
+      const info = service.getQuickInfoAtPosition(templateFileFsPath, moduleOffset + generatedOffset);
+      if (info) {
+        return {
+          range: convertTemplateRange(doc, templateCode, moduleOffset, info.textSpan),
+          contents: convertQuickInfo(info)
+        };
+      }
+      return { contents: [] };
+    },
+    findTemplateDefinition(doc: TextDocument, templateCode: TemplateCode, position: Position): Definition {
+      const generatedOffset = toGeneratedOffset(templateCode.mappings, doc.offsetAt(position));
+      if (generatedOffset === undefined) {
+        return [];
+      }
+      const { service, templateFileFsPath, moduleOffset } = updateTemplateModule(doc, templateCode);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return [];
+      }
+
+      const definitions = service.getDefinitionAtPosition(templateFileFsPath, moduleOffset + generatedOffset);
+      if (!definitions) {
+        return [];
+      }
+
+      return convertLocations(doc, templateCode, moduleOffset, service.getProgram(), definitions);
+    },
+    findTemplateReferences(doc: TextDocument, templateCode: TemplateCode, position: Position): Location[] {
+      const generatedOffset = toGeneratedOffset(templateCode.mappings, doc.offsetAt(position));
+      if (generatedOffset === undefined) {
+        return [];
+      }
+      const { service, templateFileFsPath, moduleOffset } = updateTemplateModule(doc, templateCode);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return [];
+      }
+
+      const references = service.getReferencesAtPosition(templateFileFsPath, moduleOffset + generatedOffset);
+      if (!references) {
+        return [];
+      }
+      return convertLocations(doc, templateCode, moduleOffset, service.getProgram(), references);
+    },
+    prepareTemplateRename(doc: TextDocument, templateCode: TemplateCode, position: Position): Range | null {
+      const generatedOffset = toGeneratedOffset(templateCode.mappings, doc.offsetAt(position));
+      if (generatedOffset === undefined) {
+        return null;
+      }
+      const event = findTemplateEmittedEvents(templateCode).find(
+        m => m.start <= generatedOffset && generatedOffset <= m.end
+      );
+      if (event) {
+        const start = toOriginalOffset(templateCode.mappings, event.start)!;
+        return Range.create(doc.positionAt(start), doc.positionAt(start + event.name.length));
+      }
+      const { service, templateFileFsPath, moduleOffset } = updateTemplateModule(doc, templateCode);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return null;
+      }
+
+      const info = service.getRenameInfo(templateFileFsPath, moduleOffset + generatedOffset);
+      if (!info.canRename) {
+        return null;
+      }
+      return convertTemplateRange(doc, templateCode, moduleOffset, info.triggerSpan) || null;
+    },
+    doTemplateRename(doc: TextDocument, templateCode: TemplateCode, position: Position, newName: string) {
+      const generatedOffset = toGeneratedOffset(templateCode.mappings, doc.offsetAt(position));
+      if (generatedOffset === undefined) {
+        return { changes: {} };
+      }
+      const { service, templateFileFsPath, moduleOffset } = updateTemplateModule(doc, templateCode);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return { changes: {} };
+      }
+
+      const event = findTemplateEmittedEvents(templateCode).find(
+        m => m.start <= generatedOffset && generatedOffset <= m.end
+      );
+      if (event) {
+        return renameLiteralMembers(service, doc, getFileFsPath(doc.uri), 'event', event.name, newName);
+      }
+      const offset = moduleOffset + generatedOffset;
+      return renameSymbol(service, doc, templateCode, moduleOffset, templateFileFsPath, offset, newName);
+    },
+    doComponentAttributeRename(doc: TextDocument, attribute: ComponentAttribute, newName: string) {
+      const { service } = updateCurrentTextDocument(doc);
+      if (!languageServiceIncludesFile(service, doc.uri)) {
+        return { changes: {} };
+      }
+
+      const component = findAllComponents(service, getFileFsPath(doc.uri)).find(
+        c => c.name === hyphenate(attribute.tag)
+      );
+      const definition = component && _.castArray(component.definition || [])[0];
+      if (!definition) {
+        return { changes: {} };
+      }
+      const componentFsPath = getFileFsPath(definition.uri);
+      if (attribute.kind === 'event') {
+        return renameLiteralMembers(service, doc, componentFsPath, 'event', attribute.name, newName);
+      }
+
+      const sourceFile = service.getProgram().getSourceFile(componentFsPath);
+      const prop =
+        sourceFile &&
+        findPropDeclarations(sourceFile).find(p => p.name === attribute.name || p.name === camelize(attribute.name));
+      if (!prop) {
+        return { changes: {} };
+      }
+      if (prop.isLiteral) {
+        return renameLiteralMembers(service, doc, componentFsPath, 'prop', prop.name, newName);
+      }
+      const componentDoc = getFileFsPath(doc.uri) === componentFsPath ? doc : readDocument(componentFsPath);
+      if (!isVue(componentFsPath)) {
+        const emptyTemplate = { code: '', mappings: [] };
+        return renameSymbol(service, componentDoc, emptyTemplate, 0, componentFsPath, prop.start, newName, doc);
+      }
+      const templateCode = templateCodes.get(componentDoc);
+      const { moduleOffset } = updateTemplateModule(componentDoc, templateCode);
+      return renameSymbol(service, componentDoc, templateCode, moduleOffset, componentFsPath, prop.start, newName, doc);
+    },
+    onDidChangeProject(listener: () => void) {
+      serviceHost.onDidChangeProject(listener);
+    },
+    onDidAddOrRemoveFiles(listener: () => void) {
+      serviceHost.onDidAddOrRemoveFiles(listener);
+    },
+    onDidUpdateFiles(listener: () => void) {
+      serviceHost.onDidUpdateFiles(listener);
+    },
+    whenWatcherReady() {
+      return serviceHost.whenWatcherReady();
     },
     onDocumentRemoved(document: TextDocument) {
       jsDocuments.onDocumentRemoved(document);
+      templateCodes.onDocumentRemoved(document);
+      serviceHost.removeTemplateDocument(document);
     },
     dispose() {
       serviceHost.dispose();
       jsDocuments.dispose();
+      templateCodes.dispose();
     }
   };
 }
 
+/**
+ * Locally registered components, then global ones that are not shadowed by them
+ */
+function findAllComponents(service: ts.LanguageService, fileFsPath: string): ComponentInfo[] {
+  const components = findComponents(service, fileFsPath);
+  const globalComponents = findGlobalComponents(service).filter(g => !components.some(c => c.name === g.name));
+  return components.concat(globalComponents);
+}
+
+function convertQuickInfo(info: ts.QuickInfo): MarkedString[] {
+  const display = ts.displayPartsToString(info.displayParts);
+  const doc = ts.displayPartsToString(info.documentation);
+  const markedContents: MarkedString[] = [{ language: 'ts', value: display }];
+  if (doc) {
+    markedContents.unshift(doc, '\n');
+  }
+  return markedContents;
+}
+
+function findServiceSymbols(service: ts.LanguageService, query: string): SymbolInformation[] {
+  const program = service.getProgram();
+  const sourceDocs = new Map<string, TextDocument>();
+  const getDoc = (fileName: string) => {
+    if (!sourceDocs.has(fileName)) {
+      sourceDocs.set(fileName, getSourceDoc(fileName, program));
+    }
+    return sourceDocs.get(fileName)!;
+  };
+
+  // Components are named after their .vue files
+  const components = program
+    .getRootFileNames()
+    .filter(fileName => isVue(fileName) && matchesQuery(getComponentName(fileName), query))
+    .map(fileName => {
+      const sourceFile = program.getSourceFile(fileName);
+      const exportDefault =
+        sourceFile &&
+        sourceFile.statements.find(
+          st => ts.isExportAssignment(st) || !!(ts.getCombinedModifierFlags(st) & ts.ModifierFlags.Default)
+        );
+      const span = exportDefault
+        ? { start: exportDefault.getStart(), length: exportDefault.getWidth() }
+        : { start: 0, length: 0 };
+      return {
+        name: getComponentName(fileName),
+        kind: SymbolKind.Class,
+        location: Location.create(Uri.file(fileName).toString(), convertRange(getDoc(fileName), span))
+      };
+    });
+
+  const items = service
+    .getNavigateToItems(query, undefined, undefined, true)
+    .filter(
+      item =>
+        !isTemplateFile(item.fileName) &&
+        item.fileName !== bridge.fileName &&
+        !item.name.startsWith('__vueEditorBridge')
+    );
+  const symbols = items.map(item => ({
+    name: item.name,
+    kind: convertSymbolKind(item.kind),
+    location: {
+      uri: Uri.file(item.fileName).toString(),
+      range: convertRange(getDoc(item.fileName), item.textSpan)
+    },
+    containerName: item.containerName || undefined
+  }));
+  return [...components, ...symbols];
+}
+
 function getSourceDoc(fileName: string, program: ts.Program): TextDocument {
   const sourceFile = program.getSourceFile(fileName)!;
   return TextDocument.create(fileName, 'vue', 0, sourceFile.getFullText());
 }
 
+function readDocument(fileName: string): TextDocument {
+  return TextDocument.create(Uri.file(fileName).toString(), 'vue', 0, ts.sys.readFile(fileName) || '');
+}
+
+function addEdit(changes: { [uri: string]: TextEdit[] }, uri: string, edit: TextEdit) {
+  (changes[uri] = changes[uri] || []).push(edit);
+}
+
+/**
+ * Find a prop declared as a string or an emitted event name at `offset`
+ */
+function findLiteralMemberAt(
+  sourceFile: ts.SourceFile,
+  offset: number
+): { kind: ComponentMemberKind; member: ComponentMember } | undefined {
+  const contains = (m: ComponentMember) => m.isLiteral && m.start <= offset && offset <= m.end;
+  const event = findEmittedEvents(sourceFile).find(contains);
+  if (event) {
+    return { kind: 'event', member: event };
+  }
+  const prop = findPropDeclarations(sourceFile).find(contains);
+  if (prop) {
+    return { kind: 'prop', member: prop };
+  }
+  return undefined;
+}
+
+/**
+ * Find `$emit('event')` calls in generated template code, offsets are in the generated code
+ */
+function findTemplateEmittedEvents(templateCode: TemplateCode): ComponentMember[] {
+  const sourceFile = ts.createSourceFile('template.ts', templateCode.code, ts.ScriptTarget.Latest, true);
+  return findEmittedEvents(sourceFile);
+}
+
+/**
+ * Convert locations found by the language service to locations in documents.
+ * Locations in the template module of `doc` are mapped back to its `<template>`.
+ */
+function convertLocations(
+  doc: TextDocument,
+  templateCode: TemplateCode,
+  moduleOffset: number,
+  program: ts.Program,
+  entries: { fileName: string; textSpan: ts.TextSpan }[]
+): Location[] {
+  const templateFileFsPath = getTemplateFileName(getFileFsPath(doc.uri));
+  const locations: Location[] = [];
+  entries.forEach(e => {
+    if (e.fileName === bridge.fileName) {
+      return;
+    }
+    if (getNormalizedFileFsPath(e.fileName) === templateFileFsPath) {
+      // in template, e.g. `v-for` alias or member usage
+      const range = convertTemplateRange(doc, templateCode, moduleOffset, e.textSpan);
+      if (range) {
+        locations.push({ uri: doc.uri, range });
+      }
+      return;
+    }
+    if (isTemplateFile(e.fileName)) {
+      return;
+    }
+    const targetDoc = getSourceDoc(e.fileName, program);
+    locations.push({
+      uri: Uri.file(e.fileName).toString(),
+      range: convertRange(targetDoc, e.textSpan)
+    });
+  });
+  return locations;
+}
+
+/**
+ * Wrap generated template code in a module that types `this` as the component instance
+ */
+function getTemplateModule(fileFsPath: string, templateCode: TemplateCode) {
+  const header =
+    `import __vlsComponent from './${path.basename(fileFsPath)}';\n` +
+    `import { ComponentInstance as __vlsInstance, iterate as __vlsIterate } from '${bridge.moduleName}';\n` +
+    'function __vlsRender(this: __vlsInstance<typeof __vlsComponent>) {\n';
+  return {
+    code: header + templateCode.code + '}\n',
+    offset: header.length
+  };
+}
+
+/**
+ * Convert a span in the virtual template module to a range in the .vue document
+ */
+function convertTemplateRange(
+  doc: TextDocument,
+  templateCode: TemplateCode,
+  moduleOffset: number,
+  span: ts.TextSpan
+): Range | undefined {
+  const start = toOriginalOffset(templateCode.mappings, span.start - moduleOffset);
+  const end = toOriginalOffset(templateCode.mappings, span.start + span.length - moduleOffset);
+  if (start === undefined) {
+    return undefined;
+  }
+  return Range.create(doc.positionAt(start), doc.positionAt(end === undefined ? start : end));
+}
+
 function languageServiceIncludesFile(ls: ts.LanguageService, documentUri: string): boolean {
   const filePaths = ls.getProgram().getRootFileNames();
   const filePath = getFilePath(documentUri);
@@ -495,26 +1413,46 @@ function convertCodeAction(
   const textEdits: TextEdit[] = [];
   for (const action of codeActions) {
     for (const change of action.changes) {
-      textEdits.push(...change.textChanges.map(tc => {
-        // currently, only import codeAction is available
-        // change start of doc to start of script region
-        if (tc.span.start === 0 && tc.span.length === 0) {
-          const region = regionStart.get(doc);
-          if (region) {
-            const line = region.start.line;
-            return {
-              range: Range.create(line + 1, 0, line + 1, 0),
-              newText: tc.newText
-            };
-          }
-        }
-        return {
-          range: convertRange(doc, tc.span),
-          newText: tc.newText
-        };
-      }
-      ));
+      textEdits.push(...change.textChanges.map(tc => convertTextChange(doc, tc, regionStart.get(doc))));
     }
   }
   return textEdits;
 }
+
+/**
+ * The synthetic import of `vue-editor-bridge` is sorted first, so TypeScript writes all organized imports in its place.
+ * Drop it from the organized imports and write them in place of the first import in the script instead
+ */
+function moveBridgeImportChange(sourceFile: ts.SourceFile, textChanges: ts.TextChange[]): ts.TextChange[] {
+  const bridgeImport = /^import __vueEditorBridge\b.*\r?\n?/m;
+  const bridgeChange = textChanges.find(tc => bridgeImport.test(tc.newText));
+  const firstImport = sourceFile.statements.find(isWrittenImport);
+  if (!bridgeChange || !firstImport) {
+    return textChanges;
+  }
+  const newText = bridgeChange.newText.replace(bridgeImport, '');
+  const start = firstImport.getStart(sourceFile);
+  const changes = textChanges.filter(tc => tc !== bridgeChange);
+  const firstImportChange = changes.find(tc => tc.span.start === start);
+  if (firstImportChange) {
+    firstImportChange.newText = newText;
+  } else {
+    changes.unshift({ span: { start, length: 0 }, newText });
+  }
+  return changes;
+}
+
+function convertTextChange(doc: TextDocument, tc: ts.TextChange, scriptRegion: LanguageRange | undefined): TextEdit {
+  // imports are inserted at the start of doc, change it to the start of script region
+  if (tc.span.start === 0 && tc.span.length === 0 && scriptRegion) {
+    const line = scriptRegion.start.line;
+    return {
+      range: Range.create(line + 1, 0, line + 1, 0),
+      newText: tc.newText
+    };
+  }
+  return {
+    range: convertRange(doc, tc.span),
+    newText: tc.newText
+  };
+}
@@ -1,7 +1,7 @@
 import * as ts from 'typescript';
 import * as path from 'path';
 
-import { getDocumentRegions } from '../embeddedSupport';
+import { getDocumentRegions, VueDocumentRegions, ExternalSource } from '../embeddedSupport';
 import { TextDocument } from 'vscode-languageserver-types';
 
 export function isVue(filename: string): boolean {
@@ -11,10 +11,34 @@ export function isVue(filename: string): boolean {
 export function parseVue(text: string): string {
   const doc = TextDocument.create('test://test/test.vue', 'vue', 0, text);
   const regions = getDocumentRegions(doc);
-  const script = regions.getEmbeddedDocumentByType('script');
+  const script = getScriptDocument(doc, regions);
   return script.getText() || 'export default {};';
 }
 
+/**
+ * The `<script src="...">` of a component without inline script
+ */
+export function getExternalScript(regions: VueDocumentRegions): ExternalSource | undefined {
+  const source = regions.getExternalSources().find(s => s.type === 'script');
+  return source && !regions.getEmbeddedDocumentByType('script').getText().trim() ? source : undefined;
+}
+
+/**
+ * The script of a .vue file, at the same offsets as in the file.
+ * An external script is re-exported as the component by a statement starting at its `src`
+ */
+export function getScriptDocument(document: TextDocument, regions: VueDocumentRegions): TextDocument {
+  const source = getExternalScript(regions);
+  if (!source) {
+    return regions.getEmbeddedDocumentByType('script');
+  }
+  // import paths cannot end with `.ts` or `.tsx`
+  const modulePath = source.src.replace(/\.tsx?$/, '');
+  const text =
+    document.getText().slice(0, source.start).replace(/./g, ' ') + `export { default } from '${modulePath}';`;
+  return TextDocument.create(document.uri, source.languageId, document.version, text);
+}
+
 function isTSLike(scriptKind: ts.ScriptKind | undefined) {
   return scriptKind === ts.ScriptKind.TS || scriptKind === ts.ScriptKind.TSX;
 }
@@ -0,0 +1,226 @@
+import * as ts from 'typescript';
+import { TextDocument, Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver-types';
+import { HTMLDocument, Node } from '../template/parser/htmlParser';
+import {
+  TemplateCode,
+  AttributeInfo,
+  scanAttributes,
+  stripFilters,
+  toGeneratedOffset
+} from '../template/services/templateCode';
+import { NON_PROP_ATTRIBUTES } from '../template/services/componentAttributes';
+import { ComponentInfo, PropInfo } from './findComponents';
+import { hyphenate } from '../../utils/strings';
+
+/**
+ * The compiled template module, used for resolving types of bound values
+ */
+export interface TemplateModule {
+  sourceFile: ts.SourceFile;
+  // offset of the generated template code in the module
+  offset: number;
+  checker: ts.TypeChecker;
+}
+
+const CHECKED_TYPES = ['String', 'Number', 'Boolean', 'Array', 'Object', 'Function', 'Symbol'];
+
+/**
+ * Validate attributes passed to components against their props:
+ * missing `required` props, bound values not matching prop `type`, and optionally attributes that are not props
+ */
+export function doPropValidation(
+  document: TextDocument,
+  htmlDocument: HTMLDocument,
+  templateCode: TemplateCode,
+  templateModule: TemplateModule,
+  components: ComponentInfo[],
+  checkUnknownAttributes: boolean
+): Diagnostic[] {
+  const text = document.getText();
+  const diagnostics: Diagnostic[] = [];
+
+  function addDiagnostic(start: number, length: number, message: string, severity: DiagnosticSeverity) {
+    const range = Range.create(document.positionAt(start), document.positionAt(start + length));
+    diagnostics.push({ range, message, severity });
+  }
+
+  function validateElement(node: Node, component: ComponentInfo, props: PropInfo[]) {
+    const passedProps: string[] = [];
+    let hasSpread = false;
+    for (const attr of scanAttributes(text, node.start)) {
+      const [, prefix, name] = /^(v-bind:|:)?([^.]*)/.exec(attr.name)!;
+      // `v-bind="$attrs"` and `:[key]` may pass any prop
+      if (attr.name === 'v-bind' || name.startsWith('[')) {
+        hasSpread = true;
+        continue;
+      }
+      if (name === 'v-model') {
+        passedProps.push(component.model ? hyphenate(component.model.prop) : 'value');
+        continue;
+      }
+      if (!prefix && /^(v-|@|#)/.test(name)) {
+        continue;
+      }
+      const prop = props.find(p => p.name === hyphenate(name));
+      if (!prop) {
+        if (checkUnknownAttributes && !NON_PROP_ATTRIBUTES.includes(name) && !/^(data|aria)-/.test(name)) {
+          const message = `Unknown prop '${name}' on component '${component.name}'`;
+          addDiagnostic(attr.nameStart, attr.name.length, message, DiagnosticSeverity.Warning);
+        }
+        continue;
+      }
+      passedProps.push(prop.name);
+      if (prop.type && prop.type.every(t => CHECKED_TYPES.includes(t))) {
+        if (prefix) {
+          validateBoundValue(attr, prop, prop.type);
+        } else {
+          validateStaticValue(attr, prop, prop.type);
+        }
+      }
+    }
+
+    if (hasSpread) {
+      return;
+    }
+    for (const prop of props) {
+      if (prop.required && !passedProps.includes(prop.name)) {
+        const message = `Missing required prop '${prop.name}' on component '${component.name}'`;
+        addDiagnostic(node.start + 1, node.tag!.length, message, DiagnosticSeverity.Error);
+      }
+    }
+  }
+
+  function validateBoundValue(attr: AttributeInfo, prop: PropInfo, typeNames: string[]) {
+    const value = attr.value;
+    // filters may change the type of value
+    if (!value || !value.trim() || stripFilters(value) !== value) {
+      return;
+    }
+    const start = attr.valueStart + value.length - value.trimLeft().length;
+    const expression = findTemplateExpression(templateCode, templateModule, start);
+    if (!expression) {
+      return;
+    }
+    const { checker } = templateModule;
+    const type = checker.getTypeAtLocation(expression);
+    if (!isAssignableToProp(type, typeNames)) {
+      const message = mismatchMessage(checker.typeToString(type), prop, typeNames);
+      addDiagnostic(start, value.trim().length, message, DiagnosticSeverity.Error);
+    }
+  }
+
+  function validateStaticValue(attr: AttributeInfo, prop: PropInfo, typeNames: string[]) {
+    const value = attr.value;
+    if (typeNames.includes('String')) {
+      return;
+    }
+    // `<comp disabled>` and `<comp disabled="disabled">` pass `true` to a Boolean prop
+    if (typeNames.includes('Boolean') && (!value || hyphenate(value) === prop.name)) {
+      return;
+    }
+    const message = mismatchMessage('string', prop, typeNames);
+    if (value) {
+      addDiagnostic(attr.valueStart, value.length, message, DiagnosticSeverity.Error);
+    } else {
+      addDiagnostic(attr.nameStart, attr.name.length, message, DiagnosticSeverity.Error);
+    }
+  }
+
+  function walk(node: Node) {
+    const component = node.tag ? components.find(c => c.name === hyphenate(node.tag!)) : undefined;
+    if (component && component.props) {
+      validateElement(node, component, component.props);
+    }
+    node.children.forEach(walk);
+  }
+
+  htmlDocument.roots.forEach(walk);
+  return diagnostics;
+}
+
+function mismatchMessage(typeString: string, prop: PropInfo, typeNames: string[]) {
+  return `Type '${typeString}' is not assignable to prop '${prop.name}' of type ${typeNames.join(' | ')}`;
+}
+
+/**
+ * Find the generated expression statement `(expression);` of the attribute value starting at `originalOffset`
+ */
+function findTemplateExpression(
+  templateCode: TemplateCode,
+  templateModule: TemplateModule,
+  originalOffset: number
+): ts.Expression | undefined {
+  const generatedOffset = toGeneratedOffset(templateCode.mappings, originalOffset);
+  if (generatedOffset === undefined) {
+    return undefined;
+  }
+  const { sourceFile } = templateModule;
+  const offset = templateModule.offset + generatedOffset;
+  let statement: ts.ExpressionStatement | undefined;
+
+  function visit(node: ts.Node) {
+    if (node.getStart(sourceFile) > offset || node.getEnd() < offset) {
+      return;
+    }
+    if (ts.isExpressionStatement(node) && ts.isParenthesizedExpression(node.expression)) {
+      statement = node;
+    }
+    ts.forEachChild(node, visit);
+  }
+
+  ts.forEachChild(sourceFile, visit);
+  return statement && (statement.expression as ts.ParenthesizedExpression).expression;
+}
+
+/**
+ * Whether values of `type` pass Vue's runtime check of prop constructors in `typeNames`
+ */
+function isAssignableToProp(type: ts.Type, typeNames: string[]): boolean {
+  const uncheckedFlags =
+    ts.TypeFlags.Any |
+    ts.TypeFlags.Null |
+    ts.TypeFlags.Undefined |
+    ts.TypeFlags.Never |
+    ts.TypeFlags.TypeParameter |
+    ts.TypeFlags.Intersection;
+  if (type.flags & uncheckedFlags) {
+    return true;
+  }
+  if (type.flags & ts.TypeFlags.Union) {
+    return (type as ts.UnionType).types.every(t => isAssignableToProp(t, typeNames));
+  }
+  return typeNames.some(name => isInstanceOfConstructor(type, name));
+}
+
+function isInstanceOfConstructor(type: ts.Type, name: string) {
+  switch (name) {
+    case 'String':
+      return !!(type.flags & ts.TypeFlags.StringLike);
+    case 'Number':
+      return !!(type.flags & ts.TypeFlags.NumberLike);
+    case 'Boolean':
+      return !!(type.flags & ts.TypeFlags.BooleanLike);
+    case 'Symbol':
+      return !!(type.flags & ts.TypeFlags.ESSymbolLike);
+    case 'Array':
+      return isArrayType(type);
+    case 'Function':
+      return type.getCallSignatures().length > 0;
+    case 'Object':
+      return (
+        !!(type.flags & (ts.TypeFlags.Object | ts.TypeFlags.NonPrimitive)) &&
+        !isArrayType(type) &&
+        type.getCallSignatures().length === 0
+      );
+  }
+  return false;
+}
+
+function isArrayType(type: ts.Type) {
+  const symbol = type.getSymbol();
+  if (symbol && (symbol.name === 'Array' || symbol.name === 'ReadonlyArray')) {
+    return true;
+  }
+  const target = (type as ts.TypeReference).target;
+  return !!target && !!(target.objectFlags & ts.ObjectFlags.Tuple);
+}
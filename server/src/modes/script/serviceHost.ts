@@ -1,5 +1,6 @@
 import * as path from 'path';
 import * as ts from 'typescript';
+import * as _ from 'lodash';
 import Uri from 'vscode-uri';
 import { TextDocument } from 'vscode-languageserver-types';
 import * as parseGitIgnore from 'parse-gitignore';
@@ -56,23 +57,55 @@ const defaultCompilerOptions: ts.CompilerOptions = {
   allowSyntheticDefaultImports: true
 };
 
+/**
+ * The files of a language service, with the host they are served by
+ */
+interface Project {
+  files: Set<string>;
+  host: ts.LanguageServiceHost;
+  service: ts.LanguageService;
+  // shared with scratch services, which reuse the parsed files of the project
+  documentRegistry: ts.DocumentRegistry;
+}
+
+/**
+ * A project of a tsconfig.json or jsconfig.json, in the directory the config applies to
+ */
+interface ConfiguredProject extends Project {
+  directory: string;
+  parsedConfig: ts.ParsedCommandLine;
+  // files that the config includes, including the ones of nested projects, listed again when files are added
+  includedFiles: Set<string>;
+}
+
+// delay for handling added and deleted files together
+const fileUpdateDelayMs = 200;
+
 export function getServiceHost(workspacePath: string, jsDocuments: LanguageModelCache<TextDocument>) {
   let currentScriptDoc: TextDocument;
   const versions = new Map<string, number>();
   const scriptDocs = new Map<string, TextDocument>();
+  let scratchVersion = 0;
 
-  const parsedConfig = getParsedConfig(workspacePath);
-  const files = parsedConfig.fileNames;
-  const isOldVersion = inferIsOldVersion(workspacePath);
-  const compilerOptions = {
-    ...defaultCompilerOptions,
-    ...parsedConfig.options
-  };
-  compilerOptions.allowNonTsExtensions = true;
+  let configuredProjects = createConfiguredProjects();
+  // the project of the config at or above the workspace
+  let rootProject = _.last(configuredProjects)!;
+  // .vue files that no config includes, by their directory
+  let inferredProjects = new Map<string, Project>();
+  const projectListeners: Array<() => void> = [];
+  const fileListListeners: Array<() => void> = [];
+  const fileUpdateListeners: Array<() => void> = [];
+  // files added, and files and directories deleted, since the last update
+  const addedFiles = new Set<string>();
+  const removedFiles = new Set<string>();
+  const removedDirectories = new Set<string>();
+  let fileUpdateTimer: NodeJS.Timer | undefined;
   const watcher = chokidar.watch(workspacePath, {
     ignoreInitial: true,
     ignored: defaultIgnorePatterns(workspacePath)
   });
+  // changes are reported once the initial scan of the workspace is done
+  const watcherReady = new Promise<void>(resolve => watcher.on('ready', resolve));
 
   watcher
     .on('change', filterNonScript(path => {
@@ -80,146 +113,389 @@ export function getServiceHost(workspacePath: string, jsDocuments: LanguageModel
       versions.set(path, ver + 1);
     }))
     .on('add', filterNonScript(path => {
-      files.push(path);
-    }));
+      scheduleFileUpdate(addedFiles, path);
+    }))
+    .on('unlink', filterNonScript(path => {
+      scheduleFileUpdate(removedFiles, path);
+    }))
+    .on('unlinkDir', path => {
+      if (!isInNodeModules(path) && configuredProjects.some(p => isInDirectory(path, p.directory))) {
+        scheduleFileUpdate(removedDirectories, path);
+      }
+    })
+    .on('all', (event, path) => {
+      if (isProjectFile(path) && ['add', 'change', 'unlink'].includes(event)) {
+        reloadProjects();
+      }
+      if (['add', 'addDir', 'unlink', 'unlinkDir'].includes(event)) {
+        fileListListeners.forEach(listener => listener());
+      }
+    });
 
-  function updateCurrentTextDocument(doc: TextDocument) {
-    const fileFsPath = getFileFsPath(doc.uri);
-    const filePath = getFilePath(doc.uri);
-    // When file is not in language service, add it
-    if (!scriptDocs.has(fileFsPath)) {
-      if (fileFsPath.endsWith('.vue')) {
-        files.push(filePath);
+  // Switching branches, for example, emits an event for each added or deleted file, so they are handled together
+  function scheduleFileUpdate(paths: Set<string>, path: string) {
+    paths.add(path);
+    if (fileUpdateTimer) {
+      clearTimeout(fileUpdateTimer);
+    }
+    fileUpdateTimer = setTimeout(updateFiles, fileUpdateDelayMs);
+  }
+
+  function updateFiles() {
+    fileUpdateTimer = undefined;
+    // a file deleted and added again, as when it is rewritten, stays in its project
+    removeFiles();
+    addFiles();
+    fileUpdateListeners.forEach(listener => listener());
+  }
+
+  // Added files join the nearest configured project including them, leaving the inferred one they may be in
+  function addFiles() {
+    if (addedFiles.size === 0) {
+      return;
+    }
+    configuredProjects.forEach(project => {
+      project.includedFiles = new Set(getIncludedFileNames(project.directory, getParsedConfig(project.directory)));
+    });
+    addedFiles.forEach(fileName => {
+      const project = findConfiguredProject(fileName);
+      if (project && ts.sys.fileExists(fileName)) {
+        project.files.add(fileName);
+        inferredProjects.forEach(inferredProject => inferredProject.files.delete(fileName));
       }
+    });
+    addedFiles.clear();
+  }
+
+  // Deleted files are dropped from the projects listing them, so that their programs are created again
+  // without them, and imports of them no longer resolve
+  function removeFiles() {
+    const directories = [...removedDirectories];
+    const isRemoved = (fileName: string) =>
+      removedFiles.has(fileName) || directories.some(d => isInDirectory(fileName, d));
+    getAllProjects().forEach(project => {
+      project.files.forEach(fileName => {
+        // the template of a .vue file goes with it
+        const ownerFileName = isTemplateFile(fileName) ? fileName.slice(0, -'.template.ts'.length) : fileName;
+        if (isRemoved(ownerFileName)) {
+          project.files.delete(fileName);
+        }
+      });
+    });
+    scriptDocs.forEach((doc, fileFsPath) => {
+      if (isRemoved(fileFsPath)) {
+        scriptDocs.delete(fileFsPath);
+      }
+    });
+    removedFiles.clear();
+    removedDirectories.clear();
+  }
+
+  function getAllProjects(): Project[] {
+    return [...configuredProjects, ...inferredProjects.values()];
+  }
+
+  // Compiler options, the Vue version of the bridge and tag providers depend on configs and package.json
+  function reloadProjects() {
+    disposeProjects();
+    configuredProjects = createConfiguredProjects();
+    rootProject = _.last(configuredProjects)!;
+    inferredProjects = new Map();
+    projectListeners.forEach(listener => listener());
+  }
+
+  function disposeProjects() {
+    getAllProjects().forEach(project => project.service.dispose());
+  }
+
+  // Each file belongs to the nearest config including it, so the files of nested projects are listed first
+  function createConfiguredProjects(): ConfiguredProject[] {
+    const listedFiles = new Set<string>();
+    return getConfigDirectories(workspacePath).map(directory => {
+      const parsedConfig = getParsedConfig(directory);
+      const includedFiles = getIncludedFileNames(directory, parsedConfig);
+      const files = includedFiles.filter(f => !listedFiles.has(f));
+      files.forEach(f => listedFiles.add(f));
+      const compilerOptions = {
+        ...defaultCompilerOptions,
+        ...parsedConfig.options
+      };
+      compilerOptions.allowNonTsExtensions = true;
+      return {
+        ...createProject(files, compilerOptions, directory),
+        directory,
+        parsedConfig,
+        includedFiles: new Set(includedFiles)
+      };
+    });
+  }
+
+  function findConfiguredProject(filePath: string) {
+    const project = configuredProjects.find(p => p.includedFiles.has(filePath));
+    if (project || ts.sys.fileExists(filePath)) {
+      return project;
+    }
+    // a file that is not saved yet is not listed, so it goes to the nearest config above it
+    return configuredProjects.find(p => isInDirectory(filePath, p.directory));
+  }
+
+  // When file is not in language service, add it to the nearest configured project including it,
+  // or to an inferred project with default compiler options otherwise
+  function getProject(filePath: string): Project {
+    if (!isVue(filePath)) {
+      return rootProject;
+    }
+    const listedProject = configuredProjects.find(p => p.files.has(filePath));
+    if (listedProject) {
+      return listedProject;
+    }
+    const directory = path.dirname(filePath);
+    const inferredProject = inferredProjects.get(directory);
+    if (inferredProject && inferredProject.files.has(filePath)) {
+      return inferredProject;
+    }
+    const configuredProject = findConfiguredProject(filePath);
+    if (configuredProject) {
+      configuredProject.files.add(filePath);
+      return configuredProject;
     }
+    if (inferredProject) {
+      inferredProject.files.add(filePath);
+      return inferredProject;
+    }
+    const project = createProject([filePath], { ...defaultCompilerOptions }, directory);
+    inferredProjects.set(directory, project);
+    return project;
+  }
+
+  function updateCurrentTextDocument(doc: TextDocument) {
+    const fileFsPath = getFileFsPath(doc.uri);
+    const project = getProject(getFilePath(doc.uri));
     if (!currentScriptDoc || doc.uri !== currentScriptDoc.uri || doc.version !== currentScriptDoc.version) {
       currentScriptDoc = jsDocuments.get(doc);
       const lastDoc = scriptDocs.get(fileFsPath);
       if (lastDoc && currentScriptDoc.languageId !== lastDoc.languageId) {
         // if languageId changed, restart the language service; it can't handle file type changes
-        jsLanguageService.dispose();
-        jsLanguageService = ts.createLanguageService(host);
+        project.service.dispose();
+        project.service = ts.createLanguageService(project.host, project.documentRegistry);
       }
       scriptDocs.set(fileFsPath, currentScriptDoc);
       versions.set(fileFsPath, (versions.get(fileFsPath) || 0) + 1);
     }
     return {
-      service: jsLanguageService,
-      scriptDoc: currentScriptDoc
+      service: project.service,
+      scriptDoc: currentScriptDoc,
+      isInferred: !configuredProjects.includes(project as ConfiguredProject)
+    };
+  }
+
+  // Template expressions are compiled into a virtual file next to the .vue file, see `getTemplateFileName`
+  function updateTemplateDocument(doc: TextDocument, code: string) {
+    const { service } = updateCurrentTextDocument(doc);
+    const project = getProject(getFilePath(doc.uri));
+    const templateFsPath = getTemplateFileName(getFileFsPath(doc.uri));
+    const templatePath = getTemplateFileName(getFilePath(doc.uri));
+    project.files.add(templatePath);
+    const lastDoc = scriptDocs.get(templateFsPath);
+    if (!lastDoc || lastDoc.getText() !== code) {
+      const templateDoc = TextDocument.create(Uri.file(templateFsPath).toString(), 'typescript', 0, code);
+      scriptDocs.set(templateFsPath, templateDoc);
+      versions.set(templateFsPath, (versions.get(templateFsPath) || 0) + 1);
+    }
+    return {
+      service,
+      templateFileFsPath: templateFsPath
     };
   }
 
+  /**
+   * A throwaway service of the project of `doc` in which its script reads `scriptText`,
+   * for changes computed on a modified copy of the script without touching the project.
+   * The caller disposes it
+   */
+  function createScratchService(doc: TextDocument, scriptText: string) {
+    const fileFsPath = getFileFsPath(doc.uri);
+    const { host, documentRegistry } = getProject(getFilePath(doc.uri));
+    const version = `scratch-${scratchVersion++}`;
+    const scratchHost: ts.LanguageServiceHost = {
+      ...host,
+      getScriptVersion: fileName =>
+        getNormalizedFileFsPath(fileName) === fileFsPath ? version : host.getScriptVersion(fileName),
+      getScriptSnapshot: fileName =>
+        getNormalizedFileFsPath(fileName) === fileFsPath
+          ? ts.ScriptSnapshot.fromString(scriptText)
+          : host.getScriptSnapshot(fileName)
+    };
+    return ts.createLanguageService(scratchHost, documentRegistry);
+  }
+
+  // The template of a .vue file is only compiled while the file is open
+  function removeTemplateDocument(doc: TextDocument) {
+    const templatePath = getTemplateFileName(getFilePath(doc.uri));
+    getAllProjects().forEach(project => project.files.delete(templatePath));
+    scriptDocs.delete(getTemplateFileName(getFileFsPath(doc.uri)));
+  }
+
   function getScriptDocByFsPath(fsPath: string) {
     return scriptDocs.get(fsPath);
   }
 
-  const host: ts.LanguageServiceHost = {
-    getCompilationSettings: () => compilerOptions,
-    getScriptFileNames: () => files,
-    getScriptVersion(fileName) {
-      if (fileName === bridge.fileName) {
-        return '0';
-      }
-      const normalizedFileFsPath = getNormalizedFileFsPath(fileName);
-      const version = versions.get(normalizedFileFsPath);
-      return version ? version.toString() : '0';
-    },
-    getScriptKind(fileName) {
-      if (isVue(fileName)) {
-        const uri = Uri.file(fileName);
-        fileName = uri.fsPath;
-        const doc =
-          scriptDocs.get(fileName) ||
-          jsDocuments.get(TextDocument.create(uri.toString(), 'vue', 0, ts.sys.readFile(fileName) || ''));
-        return getScriptKind(doc.languageId);
-      } else {
+  function createProject(rootFiles: string[], options: ts.CompilerOptions, currentDirectory: string): Project {
+    const files = new Set(rootFiles);
+    const host = createHost(files, options, currentDirectory, inferIsOldVersion(currentDirectory));
+    // file names are case insensitive, as for a host without `useCaseSensitiveFileNames`
+    const documentRegistry = ts.createDocumentRegistry(false, currentDirectory);
+    return { files, host, service: ts.createLanguageService(host, documentRegistry), documentRegistry };
+  }
+
+  function createHost(
+    rootFiles: Set<string>,
+    options: ts.CompilerOptions,
+    currentDirectory: string,
+    isOldVersion: boolean
+  ) {
+    const host: ts.LanguageServiceHost = {
+      getCompilationSettings: () => options,
+      getScriptFileNames: () => Array.from(rootFiles),
+      getScriptVersion(fileName) {
         if (fileName === bridge.fileName) {
-          return ts.Extension.Ts;
+          return '0';
         }
-        // NOTE: Typescript 2.3 should export getScriptKindFromFileName. Then this cast should be removed.
-        return (ts as any).getScriptKindFromFileName(fileName);
-      }
-    },
+        const normalizedFileFsPath = getNormalizedFileFsPath(fileName);
+        const version = versions.get(normalizedFileFsPath);
+        return version ? version.toString() : '0';
+      },
+      getScriptKind(fileName) {
+        if (isVue(fileName)) {
+          const uri = Uri.file(fileName);
+          fileName = uri.fsPath;
+          const doc =
+            scriptDocs.get(fileName) ||
+            jsDocuments.get(TextDocument.create(uri.toString(), 'vue', 0, ts.sys.readFile(fileName) || ''));
+          return getScriptKind(doc.languageId);
+        } else {
+          if (fileName === bridge.fileName) {
+            return ts.Extension.Ts;
+          }
+          // NOTE: Typescript 2.3 should export getScriptKindFromFileName. Then this cast should be removed.
+          return (ts as any).getScriptKindFromFileName(fileName);
+        }
+      },
 
-    // resolve @types, see https://github.com/Microsoft/TypeScript/issues/16772
-    getDirectories: vueSys.getDirectories,
-    directoryExists: vueSys.directoryExists,
-    fileExists: vueSys.fileExists,
-    readFile: vueSys.readFile,
-    readDirectory: vueSys.readDirectory,
-
-    resolveModuleNames(moduleNames: string[], containingFile: string): ts.ResolvedModule[] {
-      // in the normal case, delegate to ts.resolveModuleName
-      // in the relative-imported.vue case, manually build a resolved filename
-      return moduleNames.map(name => {
-        if (name === bridge.moduleName) {
+      // resolve @types, see https://github.com/Microsoft/TypeScript/issues/16772
+      getDirectories: vueSys.getDirectories,
+      directoryExists: vueSys.directoryExists,
+      fileExists: vueSys.fileExists,
+      readFile: vueSys.readFile,
+      readDirectory: vueSys.readDirectory,
+
+      resolveModuleNames(moduleNames: string[], containingFile: string): ts.ResolvedModule[] {
+        // in the normal case, delegate to ts.resolveModuleName
+        // in the relative-imported.vue case, manually build a resolved filename
+        return moduleNames.map(name => {
+          if (name === bridge.moduleName) {
+            return {
+              resolvedFileName: bridge.fileName,
+              extension: ts.Extension.Ts
+            };
+          }
+          if (path.isAbsolute(name) || !isVue(name)) {
+            return ts.resolveModuleName(name, containingFile, options, ts.sys).resolvedModule;
+          }
+          const resolved = ts.resolveModuleName(name, containingFile, options, vueSys).resolvedModule;
+          if (!resolved) {
+            return undefined as any;
+          }
+          if (!resolved.resolvedFileName.endsWith('.vue.ts')) {
+            return resolved;
+          }
+          const resolvedFileName = resolved.resolvedFileName.slice(0, -3);
+          const uri = Uri.file(resolvedFileName);
+          const doc =
+            scriptDocs.get(resolvedFileName) ||
+            jsDocuments.get(TextDocument.create(uri.toString(), 'vue', 0, ts.sys.readFile(resolvedFileName) || ''));
+          const extension =
+            doc.languageId === 'typescript'
+              ? ts.Extension.Ts
+              : doc.languageId === 'tsx' ? ts.Extension.Tsx : ts.Extension.Js;
+          return { resolvedFileName, extension };
+        });
+      },
+      getScriptSnapshot: (fileName: string) => {
+        if (fileName === bridge.fileName) {
+          const text = isOldVersion ? bridge.oldContent : bridge.content;
           return {
-            resolvedFileName: bridge.fileName,
-            extension: ts.Extension.Ts
+            getText: (start, end) => text.substring(start, end),
+            getLength: () => text.length,
+            getChangeRange: () => void 0
           };
         }
-        if (path.isAbsolute(name) || !isVue(name)) {
-          return ts.resolveModuleName(name, containingFile, compilerOptions, ts.sys).resolvedModule;
-        }
-        const resolved = ts.resolveModuleName(name, containingFile, compilerOptions, vueSys).resolvedModule;
-        if (!resolved) {
-          return undefined as any;
-        }
-        if (!resolved.resolvedFileName.endsWith('.vue.ts')) {
-          return resolved;
+        const normalizedFileFsPath = getNormalizedFileFsPath(fileName);
+        const doc = scriptDocs.get(normalizedFileFsPath);
+        let fileText = doc ? doc.getText() : ts.sys.readFile(normalizedFileFsPath) || '';
+        if (!doc && isVue(fileName)) {
+          // Note: This is required in addition to the parsing in embeddedSupport because
+          // this works for .vue files that aren't even loaded by VS Code yet.
+          fileText = parseVue(fileText);
         }
-        const resolvedFileName = resolved.resolvedFileName.slice(0, -3);
-        const uri = Uri.file(resolvedFileName);
-        const doc =
-          scriptDocs.get(resolvedFileName) ||
-          jsDocuments.get(TextDocument.create(uri.toString(), 'vue', 0, ts.sys.readFile(resolvedFileName) || ''));
-        const extension =
-          doc.languageId === 'typescript'
-            ? ts.Extension.Ts
-            : doc.languageId === 'tsx' ? ts.Extension.Tsx : ts.Extension.Js;
-        return { resolvedFileName, extension };
-      });
-    },
-    getScriptSnapshot: (fileName: string) => {
-      if (fileName === bridge.fileName) {
-        const text = isOldVersion ? bridge.oldContent : bridge.content;
         return {
-          getText: (start, end) => text.substring(start, end),
-          getLength: () => text.length,
+          getText: (start, end) => fileText.substring(start, end),
+          getLength: () => fileText.length,
           getChangeRange: () => void 0
         };
-      }
-      const normalizedFileFsPath = getNormalizedFileFsPath(fileName);
-      const doc = scriptDocs.get(normalizedFileFsPath);
-      let fileText = doc ? doc.getText() : ts.sys.readFile(normalizedFileFsPath) || '';
-      if (!doc && isVue(fileName)) {
-        // Note: This is required in addition to the parsing in embeddedSupport because
-        // this works for .vue files that aren't even loaded by VS Code yet.
-        fileText = parseVue(fileText);
-      }
-      return {
-        getText: (start, end) => fileText.substring(start, end),
-        getLength: () => fileText.length,
-        getChangeRange: () => void 0
-      };
-    },
-    getCurrentDirectory: () => workspacePath,
-    getDefaultLibFileName: ts.getDefaultLibFilePath,
-    getNewLine: () => '\n'
-  };
+      },
+      getCurrentDirectory: () => currentDirectory,
+      getDefaultLibFileName: ts.getDefaultLibFilePath,
+      getNewLine: () => '\n'
+    };
+    return host;
+  }
 
-  let jsLanguageService = ts.createLanguageService(host);
   return {
     updateCurrentTextDocument,
+    updateTemplateDocument,
+    removeTemplateDocument,
+    createScratchService,
     getScriptDocByFsPath,
+    // services of the tsconfig.json and jsconfig.json files in the workspace
+    getServices: () => configuredProjects.map(p => p.service),
+    // the nearest tsconfig.json or jsconfig.json applying to a file, if any
+    getConfigFileName: (fileFsPath: string) => {
+      const project = configuredProjects.find(p => isInDirectory(fileFsPath, p.directory));
+      return project && (project.parsedConfig.options.configFilePath as string | undefined);
+    },
+    // called after the projects are created again for changed configs or package.json
+    onDidChangeProject: (listener: () => void) => {
+      projectListeners.push(listener);
+    },
+    // called when a file or directory of the workspace is added or deleted
+    onDidAddOrRemoveFiles: (listener: () => void) => {
+      fileListListeners.push(listener);
+    },
+    // called after added and deleted files join or leave their projects
+    onDidUpdateFiles: (listener: () => void) => {
+      fileUpdateListeners.push(listener);
+    },
+    whenWatcherReady: () => watcherReady,
     dispose: () => {
       watcher.close();
-      jsLanguageService.dispose();
+      if (fileUpdateTimer) {
+        clearTimeout(fileUpdateTimer);
+      }
+      disposeProjects();
     },
   };
 }
 
-function getNormalizedFileFsPath(fileName: string): string {
+export function getTemplateFileName(vueFileName: string) {
+  return vueFileName + '.template.ts';
+}
+
+export function isTemplateFile(fileName: string) {
+  return fileName.endsWith('.vue.template.ts');
+}
+
+export function getNormalizedFileFsPath(fileName: string): string {
   return Uri.file(fileName).fsPath;
 }
 
@@ -257,9 +533,7 @@ function inferIsOldVersion(workspacePath: string): boolean {
 }
 
 function getParsedConfig(workspacePath: string) {
-  const configFilename =
-    ts.findConfigFile(workspacePath, ts.sys.fileExists, 'tsconfig.json') ||
-    ts.findConfigFile(workspacePath, ts.sys.fileExists, 'jsconfig.json');
+  const configFilename = findConfigFileName(workspacePath);
   const configJson = (configFilename && ts.readConfigFile(configFilename, ts.sys.readFile).config) || {
     exclude: defaultIgnorePatterns(workspacePath)
   };
@@ -275,6 +549,65 @@ function getParsedConfig(workspacePath: string) {
   );
 }
 
+/**
+ * The config in `directory`, which is the one `getConfigDirectories` found there,
+ * or the nearest one above it for the workspace
+ */
+function findConfigFileName(directory: string) {
+  const configFileName = ['tsconfig.json', 'jsconfig.json']
+    .map(name => path.join(directory, name))
+    .find(fileName => ts.sys.fileExists(fileName));
+  return (
+    configFileName ||
+    ts.findConfigFile(directory, ts.sys.fileExists, 'tsconfig.json') ||
+    ts.findConfigFile(directory, ts.sys.fileExists, 'jsconfig.json')
+  );
+}
+
+/**
+ * `parseJsonConfigFileContent` only includes .vue files with `allowJs`, so .vue files are listed separately
+ */
+function getVueFileNames(workspacePath: string, parsedConfig: ts.ParsedCommandLine): string[] {
+  const raw = parsedConfig.raw || {};
+  const exclude = raw.exclude || defaultIgnorePatterns(workspacePath);
+  return ts.sys.readDirectory(workspacePath, ['.vue'], exclude, raw.include);
+}
+
+/**
+ * Files of the config, and the .vue files that its `include` and `exclude` match
+ */
+function getIncludedFileNames(workspacePath: string, parsedConfig: ts.ParsedCommandLine): string[] {
+  return _.uniq(parsedConfig.fileNames.concat(getVueFileNames(workspacePath, parsedConfig)));
+}
+
+function isInDirectory(fileName: string, directory: string) {
+  const relative = path.relative(directory, fileName);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Directories of tsconfig.json and jsconfig.json files in the workspace, the deepest first.
+ * The workspace itself comes last, for the config found at or above it
+ */
+function getConfigDirectories(workspacePath: string): string[] {
+  const configFileNames = ts.sys.readDirectory(workspacePath, ['.json'], defaultIgnorePatterns(workspacePath), [
+    '**/tsconfig.json',
+    '**/jsconfig.json'
+  ]);
+  const directories = _.uniq(configFileNames.map(f => path.dirname(f))).filter(
+    d => path.relative(workspacePath, d) !== ''
+  );
+  return _.sortBy(directories, d => -d.split('/').length).concat(workspacePath);
+}
+
+function isInNodeModules(fileName: string) {
+  return fileName.split(/[\\/]/).includes('node_modules');
+}
+
+function isProjectFile(fileName: string) {
+  return ['tsconfig.json', 'jsconfig.json', 'package.json'].includes(path.basename(fileName));
+}
+
 function filterNonScript(func: (path: string) => void) {
   return (path: string) => {
     if (!/(tsx?|vue|jsx?)$/.test(path)) {
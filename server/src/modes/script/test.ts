@@ -2,13 +2,33 @@ import * as assert from 'assert';
 import * as path from 'path';
 import * as glob from 'glob';
 import * as fs from 'fs';
-import { TextDocument } from 'vscode-languageserver-types';
+import * as os from 'os';
+import * as _ from 'lodash';
+import {
+  TextDocument,
+  MarkedString,
+  Location,
+  WorkspaceEdit,
+  Range,
+  DiagnosticSeverity
+} from 'vscode-languageserver-types';
 import Uri from 'vscode-uri';
 
 import { getJavascriptMode } from './javascript';
+import { getServiceHost, getTemplateFileName } from './serviceHost';
+import { getScriptDocument } from './preprocess';
 import { getLanguageModelCache } from '../languageModelCache';
 import { getDocumentRegions } from '../embeddedSupport';
 import { ComponentInfo } from './findComponents';
+import { parseHTMLDocument } from '../template/parser/htmlParser';
+import { generateTemplateCode } from '../template/services/templateCode';
+import { findComponentAttributes } from '../template/services/componentAttributes';
+import { findDefinition } from '../template/services/htmlDefinition';
+import { getLanguageModes, APPLY_WORKSPACE_EDIT, APPLY_REFACTOR, ORGANIZE_IMPORTS } from '../languageModes';
+import { getVls } from '../../service';
+import { findWorkspaceSymbols } from '../../service/workspaceSymbols';
+import { format } from '../../service/formatting';
+import { UNUSED_COMPONENT } from './componentRegistration';
 
 const workspace = path.resolve(__dirname, '../../../test/fixtures/');
 const documentRegions = getLanguageModelCache(10, 60, document => getDocumentRegions(document));
@@ -26,9 +46,734 @@ suite('integrated test', () => {
       const components = scriptMode.findComponents(doc);
       test('props collection', testProps.bind(null, components));
     }
+    if (filename.endsWith('expressions.vue')) {
+      test('validate template expressions', testTemplateValidation.bind(null, doc));
+      test('complete template expressions', testTemplateCompletion.bind(null, doc));
+      test('hover and definition in template expressions', testTemplateHoverAndDefinition.bind(null, doc));
+      test('code actions', testCodeActions.bind(null, doc));
+    }
   }
+
+  const childDoc = createTextDocument(path.join(workspace, 'rename/child.vue'));
+  const parentDoc = createTextDocument(path.join(workspace, 'rename/parent.vue'));
+  test('references in template', testTemplateReferences.bind(null, parentDoc));
+  test('rename prop', testPropRename.bind(null, childDoc, parentDoc));
+  test('rename event', testEventRename.bind(null, childDoc, parentDoc));
+  test('definition of component and prop in template', testTemplateDefinition.bind(null, parentDoc));
+
+  const pickerParentDoc = createTextDocument(path.join(workspace, 'events/parent.vue'));
+  test('events, slots and model collection', testEventsSlotsModel.bind(null, pickerParentDoc));
+
+  const counterParentDoc = createTextDocument(path.join(workspace, 'props/parent.vue'));
+  test('validate props passed to components', testPropValidation.bind(null, counterParentDoc));
+
+  const classParentDoc = createTextDocument(path.join(workspace, 'class/parent.vue'));
+  test('class components', testClassComponents.bind(null, classParentDoc));
+
+  const importsDoc = createTextDocument(path.join(workspace, 'imports/parent.vue'));
+  test('organize imports', testOrganizeImports.bind(null, importsDoc));
+  test('unused and unregistered components', testComponentRegistration.bind(null, importsDoc));
+});
+
+suite('global components', () => {
+  const globalWorkspace = path.resolve(__dirname, '../../../test/fixtures-global/');
+  const globalScriptMode = getJavascriptMode(documentRegions, globalWorkspace);
+
+  test('Vue.component and require.context registrations', () => {
+    const doc = createTextDocument(path.join(globalWorkspace, 'app.vue'));
+    const components = globalScriptMode.findComponents(doc);
+    assert.deepEqual(components.map(c => c.name), ['local-card', 'global-card', 'inline-badge', 'base-button']);
+
+    const [, globalCard, inlineBadge, baseButton] = components;
+    const propNames = (c: ComponentInfo) => c.props!.map(p => p.name);
+    assert.deepEqual(propNames(globalCard), ['title']);
+    assert.deepEqual(propNames(inlineBadge), ['count']);
+    assert.deepEqual(propNames(baseButton), ['label']);
+    const definition = _.castArray(baseButton.definition!)[0];
+    assert(definition.uri.endsWith('components/BaseButton.vue'), 'definition of require.context component');
+  });
+
+  test('require.context skips dangling symlinks and picks up added files', () => {
+    const contextWorkspace = fs.mkdtempSync(path.join(os.tmpdir(), 'vetur-'));
+    const componentsDir = path.join(contextWorkspace, 'components');
+    fs.mkdirSync(componentsDir);
+    const writeFile = (fileName: string, content: string) =>
+      fs.writeFileSync(path.join(contextWorkspace, fileName), content);
+    writeFile('tsconfig.json', JSON.stringify({ compilerOptions: { allowJs: true } }));
+    writeFile(
+      'main.js',
+      `const ctx = require.context('./components');\nctx.keys().forEach(key => Vue.component(key, ctx(key)));\n`
+    );
+    writeFile('App.vue', `<script>\nexport default { components: {} };\n</script>\n`);
+    fs.symlinkSync(path.join(contextWorkspace, 'missing.vue'), path.join(componentsDir, 'Dangling.vue'));
+    const contextScriptMode = getJavascriptMode(documentRegions, contextWorkspace);
+    try {
+      const doc = createTextDocument(path.join(contextWorkspace, 'App.vue'));
+      assert.deepEqual(contextScriptMode.findComponents(doc).map(c => c.name), []);
+
+      writeFile('components/BaseInput.vue', `<script>\nexport default {};\n</script>\n`);
+      assert.deepEqual(contextScriptMode.findComponents(doc).map(c => c.name), ['base-input']);
+    } finally {
+      contextScriptMode.dispose();
+      fs.readdirSync(componentsDir).forEach(f => fs.unlinkSync(path.join(componentsDir, f)));
+      fs.rmdirSync(componentsDir);
+      fs.readdirSync(contextWorkspace).forEach(f => fs.unlinkSync(path.join(contextWorkspace, f)));
+      fs.rmdirSync(contextWorkspace);
+    }
+  });
+});
+
+suite('inferred project', () => {
+  const inferredWorkspace = path.resolve(__dirname, '../../../test/fixtures-inferred/');
+  const inferredScriptMode = getJavascriptMode(documentRegions, inferredWorkspace);
+  suiteTeardown(() => inferredScriptMode.dispose());
+
+  test('files included by tsconfig.json use its options', () => {
+    const doc = createTextDocument(path.join(inferredWorkspace, 'src/Inside.vue'));
+    const diagnostics = inferredScriptMode.doValidation!(doc);
+    assert.deepEqual(diagnostics.map(d => d.code), [2322], 'strict null checks');
+  });
+
+  test('files outside of the include use default options', () => {
+    const doc = createTextDocument(path.join(inferredWorkspace, 'other/Outside.vue'));
+    const diagnostics = inferredScriptMode.doValidation!(doc);
+    assert.equal(diagnostics.length, 1);
+    assert.equal(diagnostics[0].severity, DiagnosticSeverity.Information);
+    assert.equal(
+      diagnostics[0].message,
+      'This file is not included by tsconfig.json, so its script is checked with default compiler options'
+    );
+
+    const hover = inferredScriptMode.doHover!(doc, doc.positionAt(doc.getText().indexOf('count')));
+    assert.deepEqual((hover.contents as MarkedString[])[0], { language: 'ts', value: 'const count: number' });
+  });
+
+  test('added files join the project including them', async () => {
+    const addedWorkspace = fs.mkdtempSync(path.join(os.tmpdir(), 'vetur-'));
+    const srcDir = path.join(addedWorkspace, 'src');
+    const vuePath = path.join(srcDir, 'Added.vue');
+    fs.mkdirSync(srcDir);
+    fs.copyFileSync(path.join(inferredWorkspace, 'tsconfig.json'), path.join(addedWorkspace, 'tsconfig.json'));
+    const addedScriptMode = getJavascriptMode(documentRegions, addedWorkspace);
+    try {
+      await addedScriptMode.whenWatcherReady();
+      const updated = new Promise(resolve => addedScriptMode.onDidUpdateFiles(resolve));
+      fs.copyFileSync(path.join(inferredWorkspace, 'src/Inside.vue'), vuePath);
+      const doc = createTextDocument(vuePath);
+      // the file is in an inferred project until the watcher reports it
+      addedScriptMode.doValidation!(doc);
+      await updated;
+      assert.deepEqual(addedScriptMode.doValidation!(doc).map(d => d.code), [2322], 'strict null checks');
+    } finally {
+      addedScriptMode.dispose();
+      fs.unlinkSync(vuePath);
+      fs.rmdirSync(srcDir);
+      fs.unlinkSync(path.join(addedWorkspace, 'tsconfig.json'));
+      fs.rmdirSync(addedWorkspace);
+    }
+  }).timeout(5000);
+});
+
+suite('template files', () => {
+  const templateWorkspace = path.resolve(__dirname, '../../../test/fixtures-inferred/');
+  const jsDocuments = getLanguageModelCache(10, 60, document =>
+    getScriptDocument(document, documentRegions.get(document))
+  );
+  const serviceHost = getServiceHost(templateWorkspace, jsDocuments);
+  suiteTeardown(() => {
+    serviceHost.dispose();
+    jsDocuments.dispose();
+  });
+
+  test('the template file of a closed document leaves the project', () => {
+    const vuePath = path.join(templateWorkspace, 'src/Inside.vue');
+    const doc = createTextDocument(vuePath);
+    const templateFsPath = getTemplateFileName(vuePath);
+    const { service } = serviceHost.updateTemplateDocument(doc, 'export {};\n');
+    assert(service.getProgram().getSourceFile(templateFsPath), 'template file is compiled');
+
+    serviceHost.removeTemplateDocument(doc);
+    assert(!service.getProgram().getSourceFile(templateFsPath), 'template file is removed');
+    assert(!serviceHost.getScriptDocByFsPath(templateFsPath));
+  });
+});
+
+suite('monorepo', () => {
+  const monorepoWorkspace = path.resolve(__dirname, '../../../test/fixtures-monorepo/');
+  const monorepoScriptMode = getJavascriptMode(documentRegions, monorepoWorkspace);
+  suiteTeardown(() => monorepoScriptMode.dispose());
+
+  test('files use the options of the nearest tsconfig.json', () => {
+    const strictDoc = createTextDocument(path.join(monorepoWorkspace, 'packages/strict/src/Counter.vue'));
+    const diagnostics = monorepoScriptMode.doValidation!(strictDoc);
+    assert.deepEqual(diagnostics.map(d => d.code), [2322], 'strict null checks and path mapping of the package');
+
+    const looseDoc = createTextDocument(path.join(monorepoWorkspace, 'packages/loose/LooseCounter.vue'));
+    assert.deepEqual(monorepoScriptMode.doValidation!(looseDoc), [], 'options of the root tsconfig.json');
+  });
+
+  test('files of a package with a jsconfig.json use its options', () => {
+    const jsDoc = createTextDocument(path.join(monorepoWorkspace, 'packages/js/JsCounter.vue'));
+    const diagnostics = monorepoScriptMode.doValidation!(jsDoc);
+    assert.deepEqual(diagnostics.map(d => d.code), [2339], 'checkJs of the package');
+  });
+
+  test('workspace symbols of every project', () => {
+    const symbols = monorepoScriptMode.findWorkspaceSymbols!('Counter');
+    const names = symbols.map(s => `${s.name} ${path.relative(monorepoWorkspace, Uri.parse(s.location.uri).fsPath)}`);
+    assert.deepEqual(names.sort(), [
+      'Counter packages/strict/src/Counter.vue',
+      'JsCounter packages/js/JsCounter.vue',
+      'LooseCounter packages/loose/LooseCounter.vue'
+    ]);
+  });
+});
+
+suite('project reload', () => {
+  const reloadWorkspace = fs.mkdtempSync(path.join(os.tmpdir(), 'vetur-'));
+  const tsconfigPath = path.join(reloadWorkspace, 'tsconfig.json');
+  const vuePath = path.join(reloadWorkspace, 'Counter.vue');
+  fs.writeFileSync(tsconfigPath, JSON.stringify({ compilerOptions: { noEmit: true } }));
+  fs.copyFileSync(path.resolve(__dirname, '../../../test/fixtures-inferred/src/Inside.vue'), vuePath);
+  const reloadScriptMode = getJavascriptMode(documentRegions, reloadWorkspace);
+  suiteTeardown(() => {
+    reloadScriptMode.dispose();
+    fs.readdirSync(reloadWorkspace).forEach(f => fs.unlinkSync(path.join(reloadWorkspace, f)));
+    fs.rmdirSync(reloadWorkspace);
+  });
+
+  test('compiler options are updated when tsconfig.json changes', async () => {
+    const doc = createTextDocument(vuePath);
+    assert.deepEqual(reloadScriptMode.doValidation!(doc), []);
+
+    const reloaded = new Promise(resolve => reloadScriptMode.onDidChangeProject(resolve));
+    await reloadScriptMode.whenWatcherReady();
+    fs.writeFileSync(tsconfigPath, JSON.stringify({ compilerOptions: { noEmit: true, strict: true } }));
+    await reloaded;
+    assert.deepEqual(reloadScriptMode.doValidation!(doc).map(d => d.code), [2322], 'strict null checks');
+  }).timeout(5000);
+});
+
+suite('file deletion and rename', () => {
+  const fileUri = (fileName: string) => Uri.file(path.join(workspace, fileName)).toString();
+
+  test('relative paths to a renamed file are rewritten', () => {
+    const edit = scriptMode.getFileRenameEdits!(
+      [{ oldUri: fileUri('component/comp.vue'), newUri: fileUri('widgets/comp.vue') }],
+      []
+    );
+    const appDoc = createTextDocument(path.join(workspace, 'app.vue'));
+    assert(applyEdit(appDoc, edit)!.includes(`import Comp from './widgets/comp.vue';`));
+    const newTexts = (fileName: string) => edit.changes![fileUri(fileName)].map(e => e.newText);
+    assert.deepEqual(newTexts('imports/parent.vue'), ['../widgets/comp.vue']);
+    assert.deepEqual(newTexts('external/external-card.js'), ['../widgets/comp.vue']);
+  });
+
+  test('relative paths in a moved file are rewritten', () => {
+    // an open document with unsaved changes before the paths
+    const savedDoc = createTextDocument(path.join(workspace, 'external/ExternalCard.vue'));
+    const cardDoc = TextDocument.create(savedDoc.uri, 'vue', 1, '<!-- unsaved -->\n' + savedDoc.getText());
+    const edit = scriptMode.getFileRenameEdits!(
+      [{ oldUri: fileUri('external/ExternalCard.vue'), newUri: fileUri('cards/ExternalCard.vue') }],
+      [cardDoc]
+    );
+    const text = applyEdit(cardDoc, edit)!;
+    assert(text.includes(`<script src="../external/external-card.js"></script>`));
+    assert(text.includes(`<style src="../external/external-card.css"></style>`));
+  });
+
+  test('edits of nested workspace folders are merged', () => {
+    const vls = getVls();
+    vls.initialize([workspace, path.join(workspace, 'external')]);
+    try {
+      const edit = vls.getFileRenameEdits(
+        [{ oldUri: fileUri('external/external-card.css'), newUri: fileUri('external/card.css') }],
+        []
+      );
+      assert.deepEqual(edit.changes![fileUri('external/ExternalCard.vue')].map(e => e.newText), ['./card.css']);
+    } finally {
+      vls.dispose();
+    }
+  });
+
+  test('imports of a deleted file no longer resolve', async () => {
+    const deletionWorkspace = fs.mkdtempSync(path.join(os.tmpdir(), 'vetur-'));
+    const parentPath = path.join(deletionWorkspace, 'Parent.vue');
+    const childPath = path.join(deletionWorkspace, 'Child.vue');
+    fs.writeFileSync(
+      parentPath,
+      `<script lang="ts">\nimport Child from './Child.vue';\nexport default { components: { Child } };\n</script>\n`
+    );
+    fs.writeFileSync(childPath, `<script lang="ts">\nexport default {};\n</script>\n`);
+    const deletionScriptMode = getJavascriptMode(documentRegions, deletionWorkspace);
+    try {
+      const doc = createTextDocument(parentPath);
+      assert.deepEqual(deletionScriptMode.doValidation!(doc), []);
+
+      await deletionScriptMode.whenWatcherReady();
+      const updated = new Promise(resolve => deletionScriptMode.onDidUpdateFiles(resolve));
+      fs.unlinkSync(childPath);
+      await updated;
+      assert.deepEqual(deletionScriptMode.doValidation!(doc).map(d => d.code), [2307], 'cannot find module');
+    } finally {
+      deletionScriptMode.dispose();
+      fs.readdirSync(deletionWorkspace).forEach(f => fs.unlinkSync(path.join(deletionWorkspace, f)));
+      fs.rmdirSync(deletionWorkspace);
+    }
+  }).timeout(5000);
+});
+
+suite('external script and style', () => {
+  const languageModes = getLanguageModes(workspace);
+  suiteTeardown(() => languageModes.dispose());
+  const fileName = path.join(workspace, 'external/ExternalCard.vue');
+  const doc = createTextDocument(fileName);
+
+  test('components and template expressions of <script src>', () => {
+    assert.deepEqual(scriptMode.findComponents(doc).map(c => c.name), ['comp-label']);
+
+    const offset = doc.getText().indexOf('{{ title') + '{{ ti'.length;
+    const items = scriptMode.doTemplateComplete(doc, getTemplateCode(doc, offset), doc.positionAt(offset)).items;
+    const labels = items.map(i => i.label);
+    assert(labels.includes('title'), 'prop completion');
+    assert(labels.includes('expanded'), 'data completion');
+  });
+
+  test('<script src> of a .ts file', () => {
+    const tsWorkspace = fs.mkdtempSync(path.join(os.tmpdir(), 'vetur-'));
+    const writeFile = (fileName: string, content: string) =>
+      fs.writeFileSync(path.join(tsWorkspace, fileName), content);
+    writeFile('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true } }));
+    writeFile('card.ts', `export default {\n  data() {\n    return { count: 0 };\n  }\n};\n`);
+    writeFile(
+      'Card.vue',
+      `<template>\n  <div>{{ count }}</div>\n</template>\n\n<script src="./card.ts" lang="ts"></script>\n`
+    );
+    const tsScriptMode = getJavascriptMode(documentRegions, tsWorkspace);
+    try {
+      const tsDoc = createTextDocument(path.join(tsWorkspace, 'Card.vue'));
+      assert.deepEqual(tsScriptMode.doValidation!(tsDoc), []);
+      const offset = tsDoc.getText().indexOf('{{ count') + '{{ co'.length;
+      const templateCode = getTemplateCode(tsDoc, offset);
+      const items = tsScriptMode.doTemplateComplete(tsDoc, templateCode, tsDoc.positionAt(offset)).items;
+      assert(items.some(i => i.label === 'count'), 'data completion');
+    } finally {
+      tsScriptMode.dispose();
+      fs.readdirSync(tsWorkspace).forEach(f => fs.unlinkSync(path.join(tsWorkspace, f)));
+      fs.rmdirSync(tsWorkspace);
+    }
+  });
+
+  test('links and definition of src attributes', () => {
+    const vueMode = languageModes.getMode('vue');
+    const resolveReference = (ref: string) => Uri.file(path.join(path.dirname(fileName), ref)).toString();
+    const links = vueMode.findDocumentLinks!(doc, { resolveReference });
+    assert.deepEqual(links.map(l => doc.getText(l.range)), ['./external-card.js', './external-card.css']);
+    assert.equal(links[0].target, resolveReference('./external-card.js'));
+
+    const position = doc.positionAt(doc.getText().indexOf('external-card.css'));
+    const definition = vueMode.findDefinition!(doc, position) as Location;
+    assert.equal(definition.uri, resolveReference('./external-card.css'));
+  });
+
+  test('hover and completion of src attributes', () => {
+    const vueMode = languageModes.getMode('vue');
+    const styleOffset = doc.getText().indexOf('external-card.css');
+    const hover = vueMode.doHover!(doc, doc.positionAt(styleOffset));
+    const stylesheet = fs.readFileSync(path.join(workspace, 'external/external-card.css'), 'utf-8');
+    assert.deepEqual(hover.contents, { language: 'css', value: stylesheet });
+    assert.equal(doc.getText(hover.range!), './external-card.css');
+
+    const styleItems = vueMode.doComplete!(doc, doc.positionAt(styleOffset)).items;
+    assert(styleItems.some(i => i.label === 'external-card.css'), 'stylesheet completion');
+    assert(!styleItems.some(i => i.label === 'external-card.js'), 'no script in <style src>');
+    assert.equal(doc.getText(styleItems[0].textEdit!.range), 'external-card.css');
+
+    const scriptOffset = doc.getText().indexOf('./external-card.js') + './'.length;
+    const scriptItems = vueMode.doComplete!(doc, doc.positionAt(scriptOffset)).items;
+    assert(scriptItems.some(i => i.label === 'external-card.js'), 'script completion');
+    assert(!scriptItems.some(i => i.label === 'external-card.css'), 'no stylesheet in <script src>');
+  });
+
+  test('diagnostics of <style src>', () => {
+    const styleWorkspace = fs.mkdtempSync(path.join(os.tmpdir(), 'vetur-'));
+    fs.writeFileSync(path.join(styleWorkspace, 'card.css'), `.card {\n  colr: red;\n}\n`);
+    const cardUri = Uri.file(path.join(styleWorkspace, 'Card.vue')).toString();
+    const cardDoc = TextDocument.create(cardUri, 'vue', 0, `<style src="./card.css"></style>\n`);
+    try {
+      const diagnostics = languageModes.getMode('css').doValidation!(cardDoc);
+      assert.deepEqual(diagnostics.map(d => d.message), [`./card.css:2:3: Unknown property: 'colr'`]);
+      assert.equal(cardDoc.getText(diagnostics[0].range), './card.css');
+    } finally {
+      fs.unlinkSync(path.join(styleWorkspace, 'card.css'));
+      fs.rmdirSync(styleWorkspace);
+    }
+  });
+
+  test('class selectors of <style src>', () => {
+    const symbols = findWorkspaceSymbols(languageModes, workspace, 'external-card').filter(s => s.name[0] === '.');
+    assert.deepEqual(symbols.map(s => s.name), ['.external-card', '.external-card-title']);
+    assert(symbols[0].location.uri.endsWith('external/external-card.css'));
+  });
+
+  test('outline of <style src>', () => {
+    const cssMode = languageModes.getMode('css');
+    const symbols = cssMode.findDocumentSymbols!(doc);
+    assert.deepEqual(symbols.map(s => s.name), ['.external-card', '.external-card-title']);
+    assert(symbols.every(s => s.location.uri.endsWith('external/external-card.css')), 'locations in the stylesheet');
+
+    const missingUri = Uri.file(path.join(workspace, 'external/Missing.vue')).toString();
+    const missingDoc = TextDocument.create(missingUri, 'vue', 0, `<style src="./missing.css"></style>\n`);
+    assert.deepEqual(cssMode.findDocumentSymbols!(missingDoc), []);
+    assert.deepEqual(cssMode.doValidation!(missingDoc), []);
+  });
+});
+
+suite('style blocks of the same language', () => {
+  const languageModes = getLanguageModes(workspace);
+  suiteTeardown(() => languageModes.dispose());
+  const cssMode = languageModes.getMode('css');
+  cssMode.configure!({
+    css: {},
+    prettier: {},
+    vetur: { format: { defaultFormatter: { css: 'prettier' }, styleInitialIndent: false } }
+  });
+  const text = [
+    '<template>',
+    '  <div class="a b"></div>',
+    '</template>',
+    '',
+    '<style>',
+    '.a{colr:red}',
+    '</style>',
+    '',
+    '<style scoped>',
+    '.b{bakground:blue}',
+    '</style>'
+  ].join('\n');
+  const doc = TextDocument.create(Uri.file(path.join(workspace, 'styles.vue')).toString(), 'vue', 0, text);
+
+  test('each block is formatted in place', () => {
+    // only the style modes are configured
+    const stylesRange = Range.create(doc.positionAt(text.indexOf('<style>')), doc.positionAt(text.length));
+    const edits = format(languageModes, doc, stylesRange, { tabSize: 2, insertSpaces: true });
+    const newText = applyEdit(doc, { changes: { [doc.uri]: edits } })!;
+    assert(newText.includes('\n\n<style>\n.a {\n  colr: red;\n}\n</style>\n\n<style scoped>\n'), 'first block');
+    assert(newText.endsWith('<style scoped>\n.b {\n  bakground: blue;\n}\n</style>'), 'second block');
+  });
+
+  test('diagnostics map to their block', () => {
+    const diagnostics = cssMode.doValidation!(doc);
+    const ranges = diagnostics.map(d => [d.range.start.line, doc.getText(d.range)]);
+    assert.deepEqual(ranges, [[5, 'colr'], [9, 'bakground']]);
+  });
+});
+
+suite('component auto import', () => {
+  const languageModes = getLanguageModes(workspace);
+  const htmlMode = languageModes.getMode('vue-html')!;
+  htmlMode.configure!({ html: { suggest: {} }, vetur: { completion: { autoImport: true } } });
+
+  function completeAndResolve(doc: TextDocument, tag: string) {
+    const position = doc.positionAt(doc.getText().indexOf('<counter-l') + '<counter-l'.length);
+    const items = htmlMode.doComplete!(doc, position).items;
+    const item = items.find(i => i.label === tag)!;
+    assert(item, `completes ${tag}`);
+    return { items, item: htmlMode.doResolve!(doc, item) };
+  }
+
+  test('adds import and registration', () => {
+    const text = fs.readFileSync(path.join(workspace, 'imports/parent.vue'), 'utf-8');
+    const doc = TextDocument.create(
+      Uri.file(path.join(workspace, 'imports/parent.vue')).toString(),
+      'vue',
+      1,
+      text.replace('<comp-label></comp-label>', '<counter-l')
+    );
+    const { items, item } = completeAndResolve(doc, 'counter-label');
+    assert.equal(item.documentation, `Import from './CounterLabel.vue'`);
+    assert.equal(items.filter(i => i.label === 'counter').length, 1, 'registered components are not imported again');
+
+    const newText = applyEdit(doc, { changes: { [doc.uri]: item.additionalTextEdits! } })!;
+    const imports = `import CompLabel from '../component/comp.vue';\nimport CounterLabel from './CounterLabel.vue';\n`;
+    assert(newText.includes(imports));
+    assert(newText.includes(`'comp-label': CompLabel,\n    CounterLabel\n  }`));
+  });
+
+  test('creates components option', () => {
+    const text = [
+      '<template>',
+      '  <div>',
+      '    <counter-l',
+      '  </div>',
+      '</template>',
+      '',
+      '<script>',
+      'export default {',
+      '  data() {',
+      '    return {};',
+      '  }',
+      '};',
+      '</script>'
+    ].join('\n');
+    const doc = TextDocument.create(Uri.file(path.join(workspace, 'imports/new.vue')).toString(), 'vue', 1, text);
+    const { item } = completeAndResolve(doc, 'counter-label');
+    const newText = applyEdit(doc, { changes: { [doc.uri]: item.additionalTextEdits! } })!;
+    const script = [
+      '<script>',
+      `import CounterLabel from './CounterLabel.vue';`,
+      'export default {',
+      '  components: { CounterLabel },',
+      '  data() {'
+    ].join('\n');
+    assert(newText.includes(script));
+  });
 });
 
+suite('workspace symbols', () => {
+  const languageModes = getLanguageModes(workspace);
+  suiteTeardown(() => languageModes.dispose());
+
+  test('components, script symbols and class selectors', () => {
+    const symbols = findWorkspaceSymbols(languageModes, workspace, 'counter');
+    const names = symbols.map(s => `${s.name} ${path.relative(workspace, Uri.parse(s.location.uri).fsPath)}`);
+    assert.deepEqual(names.sort(), [
+      '.class-counter class/counter.vue',
+      '.class-counter.active:hover class/counter.vue',
+      '.counter-wrapper class/parent.vue',
+      'ClassCounter class/counter.vue',
+      'ClassCounter class/parent.vue',
+      'Counter class/counter.vue',
+      'Counter imports/parent.vue',
+      'Counter props/counter.vue',
+      'Counter props/parent.vue',
+      'CounterLabel imports/CounterLabel.vue'
+    ]);
+
+    const [component] = scriptMode.findWorkspaceSymbols!('Picker');
+    assert.equal(component.name, 'Picker');
+    assert(component.location.uri.endsWith('events/picker.vue'));
+    assert.equal(component.location.range.start.line, 9, 'range of export default');
+  });
+
+  test('added files are picked up', async () => {
+    const symbolsWorkspace = fs.mkdtempSync(path.join(os.tmpdir(), 'vetur-'));
+    const symbolsModes = getLanguageModes(symbolsWorkspace);
+    const cardPath = path.join(symbolsWorkspace, 'Card.vue');
+    try {
+      assert.deepEqual(findWorkspaceSymbols(symbolsModes, symbolsWorkspace, 'card'), []);
+
+      await symbolsModes.whenWatcherReady();
+      const added = new Promise(resolve => symbolsModes.onDidAddOrRemoveFiles(resolve));
+      fs.writeFileSync(cardPath, `<style>\n.card-title { color: red; }\n</style>\n`);
+      await added;
+      const symbols = findWorkspaceSymbols(symbolsModes, symbolsWorkspace, 'card');
+      assert.deepEqual(symbols.map(s => s.name).filter(name => name[0] === '.'), ['.card-title']);
+    } finally {
+      symbolsModes.dispose();
+      fs.readdirSync(symbolsWorkspace).forEach(f => fs.unlinkSync(path.join(symbolsWorkspace, f)));
+      fs.rmdirSync(symbolsWorkspace);
+    }
+  }).timeout(5000);
+});
+
+function getTemplateCode(doc: TextDocument, offset?: number) {
+  const template = documentRegions.get(doc).getEmbeddedDocument('vue-html');
+  return generateTemplateCode(template, parseHTMLDocument(template), offset);
+}
+
+function testTemplateValidation(doc: TextDocument) {
+  const templateCode = getTemplateCode(doc);
+  const diagnostics = scriptMode.doTemplateValidation(doc, templateCode);
+  assert.equal(diagnostics.length, 2, 'template diagnostics');
+  assert.equal(doc.getText(diagnostics[0].range), 'mesage');
+  assert.equal(doc.getText(diagnostics[1].range), `'a'`);
+}
+
+function testTemplateCompletion(doc: TextDocument) {
+  function completeAt(text: string) {
+    const offset = doc.getText().indexOf(text.replace('|', '')) + text.indexOf('|');
+    const items = scriptMode.doTemplateComplete(doc, getTemplateCode(doc, offset), doc.positionAt(offset)).items;
+    return items.map(item => item.label);
+  }
+  const members = completeAt(':title="mes|age"');
+  assert(members.includes('message'), 'prop completion');
+  assert(members.includes('count'), 'data completion');
+  assert(members.includes('select'), 'method completion');
+  assert(completeAt('{{ count.|toFixed').includes('toFixed'), 'member completion');
+  assert.deepEqual(completeAt('{{ item.|label').sort(), ['id', 'label'], 'v-for alias completion');
+
+  const emptyDoc = TextDocument.create(doc.uri, 'vue', 1, doc.getText().replace('{{ user.name }}', '{{  }}'));
+  const emptyOffset = emptyDoc.getText().indexOf('{{  }}') + 3;
+  const emptyItems = scriptMode.doTemplateComplete(
+    emptyDoc,
+    getTemplateCode(emptyDoc, emptyOffset),
+    emptyDoc.positionAt(emptyOffset)
+  ).items;
+  assert(emptyItems.some(item => item.label === 'user'), 'empty interpolation completion');
+}
+
+function testTemplateHoverAndDefinition(doc: TextDocument) {
+  const templateCode = getTemplateCode(doc);
+  const text = doc.getText();
+  const methodPosition = doc.positionAt(text.indexOf(`select('a')`) + 2);
+
+  const hover = scriptMode.doTemplateHover(doc, templateCode, methodPosition);
+  const contents = hover.contents as MarkedString[];
+  assert.equal((contents[0] as { value: string }).value, '(method) select(id: number): number');
+  assert.equal(doc.getText(hover.range!), 'select');
+
+  const methodDefinition = scriptMode.findTemplateDefinition(doc, templateCode, methodPosition) as Location[];
+  assert.equal(methodDefinition.length, 1);
+  assert.equal(methodDefinition[0].uri, doc.uri);
+  assert.equal(methodDefinition[0].range.start.line, doc.positionAt(text.indexOf('select(id: number)')).line);
+
+  const aliasPosition = doc.positionAt(text.indexOf('{{ item.label') + 4);
+  const aliasDefinition = scriptMode.findTemplateDefinition(doc, templateCode, aliasPosition) as Location[];
+  assert.equal(aliasDefinition.length, 1);
+  assert.equal(doc.offsetAt(aliasDefinition[0].range.start), text.indexOf('(item, index)') + 1);
+
+  const mixinPosition = doc.positionAt(text.indexOf('clearSelection()'));
+  const mixinDefinition = scriptMode.findTemplateDefinition(doc, templateCode, mixinPosition) as Location[];
+  assert.equal(mixinDefinition.length, 1);
+  assert(mixinDefinition[0].uri.endsWith('mixin/selection.d.ts'), 'mixin definition');
+}
+
+function testCodeActions(doc: TextDocument) {
+  const typoDoc = TextDocument.create(doc.uri, 'vue', 2, doc.getText().replace('return id;', 'return id.toFixedd();'));
+  const diagnostics = scriptMode.doValidation!(typoDoc);
+  assert.equal(diagnostics.length, 1, 'misspelled property');
+
+  const [diagnostic] = diagnostics;
+  const commands = scriptMode.getCodeActions!(typoDoc, diagnostic.range, { diagnostics });
+  const fix = commands.find(c => c.title === `Change spelling to 'toFixed'`)!;
+  assert.equal(fix.command, APPLY_WORKSPACE_EDIT);
+  assert.deepEqual(fix.arguments![0], {
+    changes: { [doc.uri]: [{ range: diagnostic.range, newText: 'toFixed' }] }
+  });
+
+  const text = typoDoc.getText();
+  const start = text.indexOf('id.toFixedd()');
+  const range = Range.create(typoDoc.positionAt(start), typoDoc.positionAt(start + 'id.toFixedd()'.length));
+  const refactors = scriptMode.getCodeActions!(typoDoc, range, { diagnostics: [] });
+  const extract = refactors.find(c => c.command === APPLY_REFACTOR && /constant/.test(c.title))!;
+  assert(extract, 'extract constant refactor');
+  const edit = scriptMode.getRefactorEdits!(typoDoc, extract.arguments![0]);
+  const newText = applyEdit(typoDoc, edit)!;
+  assert(/\n {6}const \w+ ?= ?id\.toFixedd\(\);/.test(newText), 'extracted constant');
+  assert(newText.startsWith('<template>'), 'edits stay in script');
+}
+
+function testOrganizeImports(doc: TextDocument) {
+  const text = doc.getText();
+  const position = doc.positionAt(text.indexOf('export default'));
+  const commands = scriptMode.getCodeActions!(doc, Range.create(position, position), { diagnostics: [] });
+  const organize = commands.find(c => c.command === ORGANIZE_IMPORTS)!;
+  assert.deepEqual(organize.arguments, [doc.uri]);
+
+  const newText = applyEdit(doc, scriptMode.organizeImports!(doc))!;
+  const imports = newText.split('\n').filter(line => line.startsWith('import'));
+  // `Counter` is only used by the `components` shorthand
+  assert.deepEqual(imports, [
+    `import CompLabel from '../component/comp.vue';`,
+    `import Counter from '../props/counter.vue';`
+  ]);
+  assert(newText.startsWith('<template>'), 'edits stay in script');
+  assert.equal(scriptMode.doValidation!(doc).length, 0, 'restores the script');
+}
+
+function testComponentRegistration(doc: TextDocument) {
+  const text = doc.getText().replace('<comp-label></comp-label>', '<counter-label></counter-label>');
+  const unusedDoc = TextDocument.create(doc.uri, 'vue', 2, text);
+  const diagnostics = scriptMode.doValidation!(unusedDoc);
+  assert.equal(diagnostics.length, 1);
+  const [diagnostic] = diagnostics;
+  assert.equal(diagnostic.code, UNUSED_COMPONENT);
+  assert.equal(unusedDoc.getText(diagnostic.range), `'comp-label'`);
+
+  const commands = scriptMode.getCodeActions!(unusedDoc, diagnostic.range, { diagnostics });
+  const fix = commands.find(c => c.title === `Remove unused component 'comp-label'`)!;
+  const newText = applyEdit(unusedDoc, fix.arguments![0])!;
+  assert(!newText.includes('CompLabel'), 'registration and import are removed');
+  assert(newText.includes('components: {\n    Counter\n  }'), 'keeps other registrations');
+  assert(newText.includes(`import Counter from '../props/counter.vue';\n\nexport default`), 'keeps other imports');
+
+  const templateDiagnostics = scriptMode.doTemplateValidation(unusedDoc, getTemplateCode(unusedDoc));
+  assert.deepEqual(templateDiagnostics.map(d => [unusedDoc.getText(d.range), d.message]), [
+    [
+      'counter-label',
+      `Component 'counter-label' is not registered. Import it from './CounterLabel.vue' and add it to 'components'`
+    ]
+  ]);
+}
+
+function testTemplateReferences(doc: TextDocument) {
+  const text = doc.getText();
+  const references = scriptMode.findReferences!(doc, doc.positionAt(text.indexOf('onPick(count')));
+  const referenceTexts = references.map(r => doc.getText(r.range));
+  assert.deepEqual(referenceTexts, ['onPick', 'onPick', 'onPick']);
+  assert(references.some(r => doc.offsetAt(r.range.start) === text.indexOf('onPick"')), 'template reference');
+
+  const templateReferences = scriptMode.findTemplateReferences(
+    doc,
+    getTemplateCode(doc),
+    doc.positionAt(text.indexOf('total"'))
+  );
+  assert.equal(templateReferences.length, 3);
+}
+
+// Apply edits of one document in `edit`, returns undefined when the document is not changed
+function applyEdit(doc: TextDocument, edit: WorkspaceEdit) {
+  const edits = edit.changes![doc.uri];
+  if (!edits) {
+    return undefined;
+  }
+  let text = doc.getText();
+  edits
+    .map(e => ({ start: doc.offsetAt(e.range.start), end: doc.offsetAt(e.range.end), newText: e.newText }))
+    .sort((a, b) => b.start - a.start)
+    .forEach(e => {
+      text = text.slice(0, e.start) + e.newText + text.slice(e.end);
+    });
+  return text;
+}
+
+function testPropRename(childDoc: TextDocument, parentDoc: TextDocument) {
+  const childText = childDoc.getText();
+  const declaration = childDoc.positionAt(childText.indexOf('itemCount: Number'));
+  assert.equal(childDoc.getText(scriptMode.prepareRename!(childDoc, declaration)!), 'itemCount');
+
+  const edit = scriptMode.doRename!(childDoc, declaration, 'size');
+  assert.equal(applyEdit(childDoc, edit), childText.replace(/itemCount/g, 'size'));
+  assert.equal(
+    applyEdit(parentDoc, edit),
+    parentDoc.getText().replace(':item-count=', ':size=').replace(':itemCount=', ':size=')
+  );
+
+  const template = documentRegions.get(parentDoc).getEmbeddedDocument('vue-html');
+  const attribute = findComponentAttributes(template, parseHTMLDocument(template)).find(a => a.name === 'item-count')!;
+  const attributeEdit = scriptMode.doComponentAttributeRename(parentDoc, attribute, 'itemTotal');
+  assert.equal(applyEdit(childDoc, attributeEdit), childText.replace(/itemCount/g, 'itemTotal'));
+  assert.equal(
+    applyEdit(parentDoc, attributeEdit),
+    parentDoc.getText().replace(':item-count=', ':item-total=').replace(':itemCount=', ':itemTotal=')
+  );
+}
+
+function testEventRename(childDoc: TextDocument, parentDoc: TextDocument) {
+  const childText = childDoc.getText();
+  const emitPosition = childDoc.positionAt(childText.indexOf(`'pick', 0`) + 2);
+  assert.equal(childDoc.getText(scriptMode.prepareRename!(childDoc, emitPosition)!), 'pick');
+
+  const edit = scriptMode.doRename!(childDoc, emitPosition, 'choose');
+  assert.equal(applyEdit(childDoc, edit), childText.replace(/'pick'/g, `'choose'`));
+  assert.equal(applyEdit(parentDoc, edit), parentDoc.getText().replace('@pick=', '@choose='));
+
+  const templateEmit = childDoc.positionAt(childText.indexOf(`'pick'`) + 1);
+  const templateEdit = scriptMode.doTemplateRename(childDoc, getTemplateCode(childDoc), templateEmit, 'choose');
+  assert.deepEqual(templateEdit, edit);
+}
+
 function testProps(components: ComponentInfo[]) {
   assert.equal(components.length, 4, 'component number');
   const comp = components[0];
@@ -37,14 +782,95 @@ function testProps(components: ComponentInfo[]) {
   const comp4 = components[3];
   assert.equal(comp.name, 'comp', 'component name');
   assert.equal(comp2.name, 'comp2', 'component name');
-  assert.deepEqual(comp.props, [{ name: 'propname' }, { name: 'another-prop' }]);
-  assert.deepEqual(comp2.props, [
+  const withoutDefinition = (c: ComponentInfo) => c.props!.map(p => _.omit(p, ['definition', 'type', 'required']));
+  assert.deepEqual(withoutDefinition(comp), [{ name: 'propname' }, { name: 'another-prop' }]);
+  assert.deepEqual(withoutDefinition(comp2), [
     { name: 'propname', doc: 'String' },
     { name: 'weird-prop', doc: '' },
     { name: 'another-prop', doc: 'type: Number' }
   ]);
-  assert.deepEqual(comp3.props, [{ name: 'inline' }]);
-  assert.deepEqual(comp4.props, [{ name: 'inline', doc: 'Number' }]);
+  assert.deepEqual(withoutDefinition(comp3), [{ name: 'inline' }]);
+  assert.deepEqual(withoutDefinition(comp4), [{ name: 'inline', doc: 'Number' }]);
+  assert.deepEqual(comp2.props!.map(p => p.type), [['String'], undefined, ['Number']], 'prop types');
+
+  const compDefinition = _.castArray(comp.definition!)[0];
+  assert(compDefinition.uri.endsWith('component/comp.vue'));
+  assert.deepEqual(compDefinition.range, Range.create(1, 0, 1, 14), 'export default');
+  assert.deepEqual(comp.props![1].definition!.range, Range.create(7, 23, 7, 34), 'array prop');
+  assert.deepEqual(comp2.props![1].definition!.range, Range.create(6, 4, 6, 13), 'object prop');
+  assert.deepEqual(_.castArray(comp3.definition!)[0].range, Range.create(18, 4, 18, 9), 'inline component');
+}
+
+function testTemplateDefinition(parentDoc: TextDocument) {
+  const components = scriptMode.findComponents(parentDoc);
+  const template = documentRegions.get(parentDoc).getEmbeddedDocument('vue-html');
+  function definitionAt(text: string) {
+    const offset = parentDoc.getText().indexOf(text.replace('|', '')) + text.indexOf('|');
+    const htmlDocument = parseHTMLDocument(template);
+    return _.castArray(findDefinition(template, template.positionAt(offset), htmlDocument, components) as Location[]);
+  }
+
+  const [tagDefinition] = definitionAt('<ch|ild :item-count');
+  assert(tagDefinition.uri.endsWith('rename/child.vue'));
+  assert.deepEqual(tagDefinition.range, Range.create(5, 0, 5, 14), 'component definition');
+
+  for (const attribute of [':item-|count', ':itemC|ount']) {
+    const [propDefinition] = definitionAt(attribute);
+    assert(propDefinition.uri.endsWith('rename/child.vue'));
+    assert.deepEqual(propDefinition.range, Range.create(7, 4, 7, 13), 'prop definition of ' + attribute);
+  }
+}
+
+function testEventsSlotsModel(doc: TextDocument) {
+  const [picker] = scriptMode.findComponents(doc);
+  assert.equal(picker.name, 'picker');
+  assert.deepEqual(picker.model, { prop: 'selected', event: 'change' });
+  assert.deepEqual(picker.events!.map(e => e.name), ['open', 'change', 'highlight', 'close']);
+  assert.deepEqual(picker.slots, [{ name: 'header', props: ['title'] }, { name: 'default', props: [] }]);
+}
+
+function testPropValidation(doc: TextDocument) {
+  function validate() {
+    return scriptMode
+      .doTemplateValidation(doc, getTemplateCode(doc))
+      .map(d => [doc.getText(d.range), d.message]);
+  }
+
+  assert.deepEqual(validate(), [
+    [`'abc'`, `Type '"abc"' is not assignable to prop 'count' of type Number`],
+    ['flag', `Type 'boolean' is not assignable to prop 'label' of type String | Number`],
+    ['yes', `Type 'string' is not assignable to prop 'disabled' of type Boolean`],
+    ['total', `Type 'number' is not assignable to prop 'items' of type Array`],
+    ['list', `Type 'number[]' is not assignable to prop 'options' of type Object`],
+    ['counter', `Missing required prop 'count' on component 'counter'`]
+  ]);
+
+  scriptMode.configure!({ vetur: { validation: { unknownComponentAttributes: true } } });
+  const unknownAttributes = validate().filter(([, message]) => message.startsWith('Unknown prop'));
+  scriptMode.configure!({});
+  assert.deepEqual(unknownAttributes, [[':unknown-prop', `Unknown prop 'unknown-prop' on component 'counter'`]]);
+}
+
+function testClassComponents(doc: TextDocument) {
+  const [counter] = scriptMode.findComponents(doc);
+  assert.equal(counter.name, 'class-counter');
+  assert.deepEqual(counter.props!.map(p => _.omit(p, 'definition')), [
+    { name: 'count', doc: 'type: Number\nrequired: true', type: ['Number'], required: true },
+    { name: 'label', doc: 'String', type: ['String'] },
+    { name: 'step', doc: 'number' },
+    { name: 'title', doc: 'type: String', type: ['String'] },
+    { name: 'checked', doc: 'type: Boolean', type: ['Boolean'] }
+  ]);
+  assert.deepEqual(counter.model, { prop: 'checked', event: 'toggle' });
+  assert.deepEqual(counter.events!.map(e => e.name), ['increment', 'reset', 'cleared', 'toggle']);
+  assert(counter.props![0].definition!.uri.endsWith('class/counter.vue'));
+  assert.deepEqual(counter.props![0].definition!.range, Range.create(9, 42, 9, 47), 'decorated prop');
+  assert.deepEqual(counter.props![3].definition!.range, Range.create(12, 13, 12, 18), 'synced prop');
+
+  const offset = doc.getText().indexOf('total"') + 2;
+  const items = scriptMode.doTemplateComplete(doc, getTemplateCode(doc, offset), doc.positionAt(offset)).items;
+  assert(items.some(item => item.label === 'enabled'), 'class member completion');
+  assert.deepEqual(scriptMode.doTemplateValidation(doc, getTemplateCode(doc)), []);
 }
 
 function createTextDocument(filename: string): TextDocument {
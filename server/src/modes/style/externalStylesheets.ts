@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import { TextDocument, Diagnostic, Range } from 'vscode-languageserver-types';
+import Uri from 'vscode-uri';
+
+import { VueDocumentRegions, ExternalSource } from '../embeddedSupport';
+import { resolveFsPath } from '../../utils/paths';
+
+export interface ExternalStylesheet {
+  source: ExternalSource;
+  document: TextDocument;
+}
+
+/**
+ * Stylesheets of `languageId` referenced by `<style src="...">` of a .vue document
+ */
+export function getExternalStylesheets(
+  document: TextDocument,
+  regions: VueDocumentRegions,
+  languageId: string
+): ExternalStylesheet[] {
+  return regions
+    .getExternalSources()
+    .filter(s => s.type === 'style' && s.languageId === languageId)
+    .map(source => ({ source, fileFsPath: resolveFsPath(document.uri, source.src) }))
+    .filter(({ fileFsPath }) => fs.existsSync(fileFsPath))
+    .map(({ source, fileFsPath }) => ({
+      source,
+      document: TextDocument.create(
+        Uri.file(fileFsPath).toString(),
+        languageId,
+        0,
+        fs.readFileSync(fileFsPath, 'utf-8')
+      )
+    }));
+}
+
+/**
+ * Places `diagnostics` of an external stylesheet on its `src` in the .vue document,
+ * keeping their position in the stylesheet in the message
+ */
+export function toSourceDiagnostics(
+  document: TextDocument,
+  stylesheet: ExternalStylesheet,
+  diagnostics: Diagnostic[]
+): Diagnostic[] {
+  const { source } = stylesheet;
+  const range = Range.create(document.positionAt(source.start), document.positionAt(source.end));
+  return diagnostics.map(d => {
+    const { line, character } = d.range.start;
+    return { ...d, range, message: `${source.src}:${line + 1}:${character + 1}: ${d.message}` };
+  });
+}
@@ -12,6 +12,7 @@ import { Priority } from './emmet';
 import { LanguageModelCache, getLanguageModelCache } from '../languageModelCache';
 import { LanguageMode } from '../languageModes';
 import { VueDocumentRegions } from '../embeddedSupport';
+import { getExternalStylesheets, toSourceDiagnostics } from './externalStylesheets';
 import { getFileFsPath } from '../../utils/paths';
 import { prettierify } from '../../utils/prettier';
 import { ParserOption } from '../../utils/prettier/prettier.d';
@@ -60,7 +61,12 @@ function getStyleMode(
         return [];
       } else {
         const embedded = embeddedDocuments.get(document);
-        return languageService.doValidation(embedded, stylesheets.get(embedded));
+        const external = getExternalStylesheets(document, documentRegions.get(document), languageId);
+        const externalDiagnostics = _.flatMap(external, s => {
+          const diagnostics = languageService.doValidation(s.document, languageService.parseStylesheet(s.document));
+          return toSourceDiagnostics(document, s, diagnostics);
+        });
+        return languageService.doValidation(embedded, stylesheets.get(embedded)).concat(externalDiagnostics);
       }
     },
     doComplete(document, position) {
@@ -100,7 +106,11 @@ function getStyleMode(
     },
     findDocumentSymbols(document) {
       const embedded = embeddedDocuments.get(document);
-      return languageService.findDocumentSymbols(embedded, stylesheets.get(embedded));
+      const external = getExternalStylesheets(document, documentRegions.get(document), languageId);
+      const externalSymbols = _.flatMap(external, ({ document: d }) =>
+        languageService.findDocumentSymbols(d, languageService.parseStylesheet(d))
+      );
+      return languageService.findDocumentSymbols(embedded, stylesheets.get(embedded)).concat(externalSymbols);
     },
     findDefinition(document, position) {
       const embedded = embeddedDocuments.get(document);
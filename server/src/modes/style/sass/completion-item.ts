@@ -0,0 +1,125 @@
+import {
+  CompletionItem,
+  CompletionItemKind,
+  TextDocument,
+  Position,
+  CompletionList
+} from 'vscode-languageserver-types';
+
+import { SassNode, parseSass, findEnclosingNodes } from './parser';
+import { findPropertySchema } from '../stylus/completion-item';
+
+import * as cssSchema from '../stylus/css-schema';
+import * as _ from 'lodash';
+
+const sassDirectives = [
+  { name: '@mixin', desc: 'Defines a mixin, `=name` is the shorthand.' },
+  { name: '@include', desc: 'Includes a mixin, `+name` is the shorthand.' },
+  { name: '@extend', desc: 'Inherits the styles of another selector.' },
+  { name: '@function', desc: 'Defines a function.' },
+  { name: '@return', desc: 'Returns the result of a function.' },
+  { name: '@if', desc: 'Includes the block when the condition is true.' },
+  { name: '@else', desc: 'Includes the block when previous conditions are false.' },
+  { name: '@each', desc: 'Includes the block for each item of a list or map.' },
+  { name: '@for', desc: 'Includes the block for each number in a range.' },
+  { name: '@while', desc: 'Includes the block while the condition is true.' },
+  { name: '@debug', desc: 'Prints the value of an expression for debugging.' },
+  { name: '@warn', desc: 'Prints a warning.' },
+  { name: '@error', desc: 'Throws an error.' },
+  { name: '@at-root', desc: 'Emits the block at the root of the document.' },
+  { name: '@content', desc: 'Includes the block passed to a mixin.' }
+];
+
+/**
+ * Variables visible at `position`: declared before it, either at top level or in an enclosing block
+ */
+function getVisibleVariables(nodes: SassNode[], position: Position, indent: string): CompletionItem[] {
+  const enclosing = findEnclosingNodes(nodes, position, indent);
+  return _.uniqBy(
+    nodes.filter(
+      node =>
+        node.type === 'Variable' &&
+        node.line < position.line &&
+        (!node.parent || enclosing.includes(node.parent))
+    ),
+    node => node.name
+  ).map(node => {
+    const completionItem = CompletionItem.create(node.name);
+    completionItem.detail = node.value;
+    completionItem.kind = CompletionItemKind.Variable;
+    return completionItem;
+  });
+}
+
+function getSymbols(nodes: SassNode[], type: 'Mixin' | 'Function'): CompletionItem[] {
+  return _.uniqBy(nodes.filter(node => node.type === type), node => node.name).map(node => {
+    const completionItem = CompletionItem.create(node.name);
+    completionItem.kind = CompletionItemKind.Function;
+    return completionItem;
+  });
+}
+
+function getAtRules(): CompletionItem[] {
+  return [...cssSchema.data.css.atdirectives, ...sassDirectives].map(directive => {
+    const completionItem = CompletionItem.create(directive.name);
+    completionItem.detail = directive.desc;
+    completionItem.kind = CompletionItemKind.Keyword;
+    return completionItem;
+  });
+}
+
+function getProperties(): CompletionItem[] {
+  return cssSchema.data.css.properties.map(property => {
+    const completionItem = CompletionItem.create(property.name);
+    completionItem.insertText = property.name + ': ';
+    completionItem.detail = property.desc;
+    completionItem.kind = CompletionItemKind.Property;
+    return completionItem;
+  });
+}
+
+function getValues(property: string): CompletionItem[] {
+  const schema = findPropertySchema(cssSchema, property);
+  const values = schema && schema.values;
+  if (!values) {
+    return [];
+  }
+  return values.map(value => {
+    const completionItem = CompletionItem.create(value.name);
+    completionItem.documentation = value.desc;
+    completionItem.kind = CompletionItemKind.Value;
+    return completionItem;
+  });
+}
+
+export function provideCompletionItems(document: TextDocument, position: Position): CompletionList {
+  const text = document.getText();
+  const lineText = text.slice(document.offsetAt(Position.create(position.line, 0)), document.offsetAt(position));
+  const indent = lineText.slice(0, lineText.length - lineText.replace(/^\s+/, '').length);
+  const currentWord = lineText.trim();
+  const nodes = parseSass(text);
+
+  let completions: CompletionItem[] = [];
+  const valueMatch = /^(\$?[\w-]+)\s*:\s|^:([\w-]+)\s/.exec(currentWord);
+  if (valueMatch) {
+    const property = valueMatch[1] || valueMatch[2];
+    const values = property.startsWith('$') ? [] : getValues(property);
+    completions = completions.concat(
+      values,
+      getVisibleVariables(nodes, position, indent),
+      getSymbols(nodes, 'Function')
+    );
+  } else if (/^(\+|@include\s)/.test(currentWord)) {
+    completions = getSymbols(nodes, 'Mixin');
+  } else if (currentWord.startsWith('@')) {
+    completions = getAtRules();
+  } else if (currentWord.startsWith('$')) {
+    completions = getVisibleVariables(nodes, position, indent);
+  } else if (!/^[.#&:=]/.test(currentWord)) {
+    completions = getProperties();
+  }
+  return {
+    isIncomplete: false,
+    items: completions
+  };
+}
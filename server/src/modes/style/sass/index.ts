@@ -0,0 +1,106 @@
+import * as _ from 'lodash';
+import * as emmet from 'vscode-emmet-helper';
+import { CompletionList, TextEdit } from 'vscode-languageserver-types';
+
+import { Priority } from '../emmet';
+import { LanguageModelCache, getLanguageModelCache } from '../../languageModelCache';
+import { LanguageMode } from '../../languageModes';
+import { VueDocumentRegions } from '../../embeddedSupport';
+import { getExternalStylesheets } from '../externalStylesheets';
+
+import { provideCompletionItems } from './completion-item';
+import { provideDocumentSymbols } from './symbols-finder';
+import { sassHover } from './sass-hover';
+import { formatSass } from './sass-formatter';
+
+export function getSassMode(documentRegions: LanguageModelCache<VueDocumentRegions>): LanguageMode {
+  const embeddedDocuments = getLanguageModelCache(10, 60, document =>
+    documentRegions.get(document).getEmbeddedDocument('sass')
+  );
+  let baseIndentShifted = false;
+  let config: any = {};
+  return {
+    getId: () => 'sass',
+    configure(c) {
+      baseIndentShifted = _.get(c, 'vetur.format.styleInitialIndent', false);
+      config = c;
+    },
+    onDocumentRemoved() {},
+    dispose() {
+      embeddedDocuments.dispose();
+    },
+    doComplete(document, position) {
+      const embedded = embeddedDocuments.get(document);
+
+      const lsCompletions = provideCompletionItems(embedded, position);
+      const lsItems = _.map(lsCompletions.items, i => {
+        return {
+          ...i,
+          sortText: Priority.Platform + i.label
+        };
+      });
+
+      const emmetCompletions: CompletionList = emmet.doComplete(document, position, 'sass', config.emmet);
+      if (!emmetCompletions) {
+        return { isIncomplete: false, items: lsItems };
+      } else {
+        const emmetItems = _.map(emmetCompletions.items, i => {
+          return {
+            ...i,
+            sortText: Priority.Emmet + i.label
+          };
+        });
+        return {
+          isIncomplete: emmetCompletions.isIncomplete,
+          items: _.concat(emmetItems, lsItems)
+        };
+      }
+    },
+    findDocumentSymbols(document) {
+      const embedded = embeddedDocuments.get(document);
+      const external = getExternalStylesheets(document, documentRegions.get(document), 'sass');
+      return _.flatMap([embedded, ...external.map(s => s.document)], provideDocumentSymbols);
+    },
+    doHover(document, position) {
+      const embedded = embeddedDocuments.get(document);
+      return sassHover(embedded, position);
+    },
+    format(document, range, formatParams) {
+      if (_.get(config, 'vetur.format.defaultFormatter.sass') === 'none') {
+        return [];
+      }
+
+      // each block is formatted on its own
+      const inputText = document.getText(range).replace(/^\s*\n/, '');
+
+      const tabStopChar = formatParams.insertSpaces ? ' '.repeat(formatParams.tabSize) : '\t';
+
+      // Note that this would have been `document.eol` ideally
+      const newLineChar = inputText.includes('\r\n') ? '\r\n' : '\n';
+
+      // Determine the base indentation for the multi-line Sass content
+      let baseIndent = '';
+      if (range.start.line !== range.end.line) {
+        const styleTagLine = document.getText().split(/\r?\n/)[range.start.line];
+        if (styleTagLine) {
+          baseIndent = _.get(styleTagLine.match(/^(\t|\s)+/), '0', '');
+        }
+      }
+
+      // Add one more indentation when `vetur.format.styleInitialIndent` is set to `true`
+      if (baseIndentShifted) {
+        baseIndent += tabStopChar;
+      }
+
+      const formattedText = formatSass(inputText, tabStopChar);
+
+      // Add the base indentation and correct the new line characters
+      const outputText = ((range.start.line !== range.end.line ? '\n' : '') + formattedText)
+        .split(/\n/)
+        .map(line => (line.length > 0 ? baseIndent + line : ''))
+        .join(newLineChar);
+
+      return [TextEdit.replace(range, outputText)];
+    }
+  };
+}
@@ -0,0 +1,121 @@
+import { Position } from 'vscode-languageserver-types';
+
+export type SassNodeType = 'Variable' | 'Mixin' | 'Function' | 'Include' | 'Atrule' | 'Property' | 'Selector';
+
+export interface SassNode {
+  type: SassNodeType;
+  // `$color`, `button`, `.foo &:hover` or `@media screen`
+  name: string;
+  // value after `:` for variables and properties
+  value?: string;
+  // 0 based
+  line: number;
+  column: number;
+  // last line of the nested block, same as `line` without a block
+  endLine: number;
+  indent: string;
+  parent?: SassNode;
+}
+
+/**
+ * Parse indented Sass line by line.
+ * Nesting is decided by indentation, comment blocks are skipped.
+ */
+export function parseSass(text: string): SassNode[] {
+  const lines = text.split('\n');
+  const nodes: SassNode[] = [];
+  const stack: SassNode[] = [];
+  let commentIndent: string | undefined;
+
+  lines.forEach((rawLine, lineNumber) => {
+    const line = rawLine.replace(/\r$/, '');
+    const content = line.trim();
+    if (!content) {
+      return;
+    }
+    const indent = line.slice(0, line.length - line.replace(/^\s+/, '').length);
+    if (commentIndent !== undefined) {
+      if (indent.length > commentIndent.length) {
+        return;
+      }
+      commentIndent = undefined;
+    }
+    if (content.startsWith('//') || content.startsWith('/*')) {
+      commentIndent = indent;
+      return;
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].indent.length >= indent.length) {
+      stack.pop();
+    }
+    const node: SassNode = {
+      ...parseLine(content),
+      line: lineNumber,
+      column: indent.length,
+      endLine: lineNumber,
+      indent,
+      parent: stack[stack.length - 1]
+    };
+    for (let p = node.parent; p; p = p.parent) {
+      p.endLine = lineNumber;
+    }
+    nodes.push(node);
+    stack.push(node);
+  });
+  return nodes;
+}
+
+function parseLine(content: string): { type: SassNodeType; name: string; value?: string } {
+  let match = /^(\$[\w-]+)\s*:\s*(.*)$/.exec(content);
+  if (match) {
+    return { type: 'Variable', name: match[1], value: match[2] };
+  }
+  match = /^(?:=\s*|@mixin\s+)([\w-]+)/.exec(content);
+  if (match) {
+    return { type: 'Mixin', name: match[1] };
+  }
+  match = /^@function\s+([\w-]+)/.exec(content);
+  if (match) {
+    return { type: 'Function', name: match[1] };
+  }
+  match = /^(?:\+\s*|@include\s+)([\w-]+)/.exec(content);
+  if (match) {
+    return { type: 'Include', name: match[1] };
+  }
+  if (content.startsWith('@')) {
+    return { type: 'Atrule', name: content };
+  }
+  // `color: red`, `font:` for nested properties, or the old `:color red` syntax
+  match = /^([\w-]+)\s*:(?:\s+(.*)|$)/.exec(content) || /^:([\w-]+)\s+(.*)$/.exec(content);
+  if (match) {
+    return { type: 'Property', name: match[1], value: match[2] };
+  }
+  return { type: 'Selector', name: content };
+}
+
+/**
+ * Find nodes whose blocks enclose `position`, the innermost first
+ */
+export function findEnclosingNodes(nodes: SassNode[], position: Position, indent: string): SassNode[] {
+  let innermost: SassNode | undefined;
+  for (const node of nodes) {
+    if (node.line >= position.line) {
+      break;
+    }
+    innermost = node;
+  }
+  const result: SassNode[] = [];
+  for (let node = innermost; node; node = node.parent) {
+    if (node.indent.length < indent.length) {
+      result.push(node);
+    }
+  }
+  return result;
+}
+
+/**
+ * Find the node at `position`, only the line is considered
+ */
+export function findNodeAtPosition(nodes: SassNode[], position: Position): SassNode | undefined {
+  return nodes.find(node => node.line === position.line);
+}
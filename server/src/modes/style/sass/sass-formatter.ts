@@ -0,0 +1,34 @@
+/**
+ * Re-indent indented Sass by nesting level, trim trailing whitespace and collapse blank lines
+ */
+export function formatSass(text: string, tabStopChar: string): string {
+  const output: string[] = [];
+  const indents: number[] = [];
+  let blank = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const content = rawLine.trim();
+    if (!content) {
+      blank = output.length > 0;
+      continue;
+    }
+    const indent = rawLine.length - rawLine.replace(/^\s+/, '').length;
+    while (indents.length > 0 && indents[indents.length - 1] > indent) {
+      indents.pop();
+    }
+    if (indents.length === 0 || indents[indents.length - 1] < indent) {
+      indents.push(indent);
+    }
+    if (blank) {
+      output.push('');
+      blank = false;
+    }
+    output.push(tabStopChar.repeat(indents.length - 1) + normalizeLine(content));
+  }
+  return output.join('\n') + '\n';
+}
+
+function normalizeLine(content: string) {
+  // `color:   red` to `color: red`, `a:hover` is left alone
+  return content.replace(/^(\$?[\w-]+):\s+/, '$1: ');
+}
@@ -0,0 +1,50 @@
+import { TextDocument, Position, Hover, Range } from 'vscode-languageserver-types';
+
+import { parseSass, findNodeAtPosition, findEnclosingNodes } from './parser';
+import { findPropertySchema } from '../stylus/completion-item';
+
+import * as cssSchema from '../stylus/css-schema';
+
+export function sassHover(document: TextDocument, position: Position): Hover {
+  const nodes = parseSass(document.getText());
+  const node = findNodeAtPosition(nodes, position);
+  if (!node) {
+    return { contents: [] };
+  }
+
+  const lineText = document.getText(Range.create(position.line, 0, position.line + 1, 0));
+  const wordRE = /\$?[\w-]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordRE.exec(lineText))) {
+    if (match.index <= position.character && position.character <= match.index + match[0].length) {
+      break;
+    }
+  }
+  if (!match) {
+    return { contents: [] };
+  }
+  const word = match[0];
+  const range = Range.create(position.line, match.index, position.line, match.index + word.length);
+
+  if (node.type === 'Property' && word === node.name) {
+    const property = findPropertySchema(cssSchema, word);
+    return {
+      contents: (property && property.desc) || 'unknown property',
+      range
+    };
+  }
+  if (word.startsWith('$')) {
+    const enclosing = findEnclosingNodes(nodes, position, node.indent);
+    const declaration = nodes
+      .filter(n => n.type === 'Variable' && n.name === word && n.line <= position.line)
+      .reverse()
+      .find(n => !n.parent || enclosing.includes(n.parent));
+    if (declaration) {
+      return {
+        contents: [{ language: 'sass', value: `${declaration.name}: ${declaration.value}` }],
+        range
+      };
+    }
+  }
+  return { contents: [] };
+}
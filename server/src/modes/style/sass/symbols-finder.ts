@@ -0,0 +1,35 @@
+import { TextDocument, SymbolInformation, SymbolKind, Range } from 'vscode-languageserver-types';
+
+import { SassNode, parseSass } from './parser';
+
+const symbolKinds: { [type: string]: SymbolKind } = {
+  Variable: SymbolKind.Variable,
+  Mixin: SymbolKind.Function,
+  Function: SymbolKind.Function,
+  Selector: SymbolKind.Class,
+  Atrule: SymbolKind.Namespace
+};
+
+function getSymbolName(node: SassNode) {
+  if (node.type === 'Mixin') {
+    return '=' + node.name;
+  }
+  return node.name;
+}
+
+export function provideDocumentSymbols(document: TextDocument): SymbolInformation[] {
+  const symbols: SymbolInformation[] = [];
+  const text = document.getText();
+  const lines = text.split(/\r?\n/);
+  parseSass(text).forEach(node => {
+    const kind = symbolKinds[node.type];
+    if (kind === undefined) {
+      return;
+    }
+    const name = getSymbolName(node);
+    const range = Range.create(node.line, node.column, node.endLine, lines[node.endLine].length);
+    const symbol = SymbolInformation.create(name, kind, range, document.uri, node.parent && getSymbolName(node.parent));
+    symbols.push(symbol);
+  });
+  return symbols;
+}
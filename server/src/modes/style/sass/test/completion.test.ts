@@ -0,0 +1,71 @@
+import { CompletionTestSetup, testDSL } from '../../../test-util/completion-test-util';
+
+import { provideCompletionItems } from '../completion-item';
+
+const setup: CompletionTestSetup = {
+  langId: 'sass',
+  docUri: 'test://test/test.sass',
+  doComplete(doc, pos) {
+    return provideCompletionItems(doc, pos);
+  }
+};
+
+const sass = testDSL(setup);
+
+suite('Sass Completion', () => {
+  test('basic property', () => {
+    sass`back|`.has('background');
+
+    sass`.back|`.hasNo('background');
+
+    sass`
+    .background
+      back|`.has('background');
+  });
+
+  test('property value', () => {
+    sass`
+    .test
+      cursor: po|`.has('pointer');
+
+    sass`
+    .test
+      :cursor po|`.has('pointer');
+  });
+
+  test('variable', () => {
+    sass`
+    $test-var: red
+    .test-selector
+      color: $te|`.has('$test-var');
+
+    sass`
+    .test-selector
+      $test-var: red
+      color: $test-var
+    .another-var
+      color: $te|`.hasNo('$test-var');
+  });
+
+  test('mixin', () => {
+    sass`
+    =test-mixin($n)
+      width: $n
+    .test-selector
+      +te|`.has('test-mixin');
+
+    sass`
+    @mixin test-mixin
+      width: 1px
+    .test-selector
+      @include te|`.has('test-mixin');
+  });
+
+  test('directive', () => {
+    sass`@med|`.has('@media');
+
+    sass`
+    .test-selector
+      @ex|`.has('@extend');
+  });
+});
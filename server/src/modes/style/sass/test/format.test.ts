@@ -0,0 +1,15 @@
+import * as assert from 'assert';
+
+import { formatSass } from '../sass-formatter';
+
+suite('Sass Format', () => {
+  test('reindent by nesting level', () => {
+    const input = ['.a', '    color:   red  ', '    .b', '        width: 1px', '', '', '.c', ' height: 0'].join('\n');
+    const expected = ['.a', '  color: red', '  .b', '    width: 1px', '', '.c', '  height: 0', ''].join('\n');
+    assert.equal(formatSass(input, '  '), expected);
+  });
+
+  test('keeps pseudo selectors', () => {
+    assert.equal(formatSass('a:hover\n\tcolor: red', '  '), 'a:hover\n  color: red\n');
+  });
+});
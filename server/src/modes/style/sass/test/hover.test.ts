@@ -0,0 +1,30 @@
+import { hoverDSL } from '../../../test-util/hover-test-util';
+
+import { sassHover } from '../sass-hover';
+
+const sass = hoverDSL({
+  langId: 'sass',
+  docUri: 'test://test/test.sass',
+  doHover(doc, pos) {
+    return sassHover(doc, pos);
+  }
+});
+
+suite('Sass Hover', () => {
+  test('property hover', () => {
+    sass`.test
+  cu|rsor: pointer`.hasHoverAt('Allows control over cursor appearance in an element', 8);
+
+    sass`.test
+  :cu|rsor pointer`.hasHoverAt('Allows control over cursor appearance in an element', 9);
+
+    sass`.test
+  cursor: p|ointer`.hasNothing();
+  });
+
+  test('variable hover', () => {
+    sass`$main-color: red
+.test
+  color: $ma|in-color`.hasHoverAt('$main-color: red', 32);
+  });
+});
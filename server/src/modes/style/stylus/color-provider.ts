@@ -0,0 +1,187 @@
+import { TextDocument, Range, TextEdit } from 'vscode-languageserver-types';
+import {
+  Color, ColorInformation, ColorPresentation
+} from 'vscode-languageserver-protocol/lib/protocol.colorProvider.proposed';
+
+import { StylusNode, buildAst, isColor } from './parser';
+
+import * as _ from 'lodash';
+
+const namedColors: { [name: string]: number[] } = require('stylus/lib/colors');
+
+function createColor(red: number, green: number, blue: number, alpha: number): Color {
+  return { red, green, blue, alpha };
+}
+
+/**
+ * Visits every node of ast, including expressions and call arguments
+ * @param {StylusNode} node
+ * @param {Function} visit
+ */
+function walk(node: any, visit: (node: StylusNode) => void) {
+  if (!node || typeof node !== 'object') {
+    return;
+  }
+  if (node.__type) {
+    visit(node);
+  }
+  for (const key of Object.keys(node)) {
+    const child = node[key];
+    if (Array.isArray(child)) {
+      child.forEach(c => walk(c, visit));
+    } else if (child && typeof child === 'object') {
+      walk(child, visit);
+    }
+  }
+}
+
+function hslToColor(h: number, s: number, l: number, alpha: number): Color {
+  h = ((h % 360) + 360) % 360 / 60;
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const x = chroma * (1 - Math.abs(h % 2 - 1));
+  const [r, g, b] = [
+    [chroma, x, 0],
+    [x, chroma, 0],
+    [0, chroma, x],
+    [0, x, chroma],
+    [x, 0, chroma],
+    [chroma, 0, x]
+  ][Math.floor(h)];
+  const m = l - chroma / 2;
+  return createColor(r + m, g + m, b + m, alpha);
+}
+
+function colorToHsl(color: Color) {
+  const { red, green, blue } = color;
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const l = (max + min) / 2;
+  const chroma = max - min;
+  if (chroma === 0) {
+    return { h: 0, s: 0, l };
+  }
+  const s = chroma / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === red) {
+    h = ((green - blue) / chroma) % 6;
+  } else if (max === green) {
+    h = (blue - red) / chroma + 2;
+  } else {
+    h = (red - green) / chroma + 4;
+  }
+  return { h: (h * 60 + 360) % 360, s, l };
+}
+
+/**
+ * Evaluates arguments of `rgb()`, `rgba()`, `hsl()` and `hsla()` when they are all literal numbers
+ * @param {StylusNode} node
+ * @return {Color | null}
+ */
+function _callColor(node: StylusNode): Color | null {
+  const args = (node.args && node.args.nodes) || [];
+  const units = args.map(arg => (arg.nodes && arg.nodes.length === 1 ? arg.nodes[0] : null));
+  if (units.some(unit => !unit || unit.__type !== 'Unit')) {
+    return null;
+  }
+  const values = units.map(unit => {
+    const value: number = _.get(unit, 'val') as any;
+    return _.get(unit, 'type') === '%' ? value / 100 : value;
+  });
+  const isHsl = node.name.startsWith('hsl');
+  if (values.length !== 3 && values.length !== 4) {
+    return null;
+  }
+  const alpha = values.length === 4 ? values[3] : 1;
+  if (isHsl) {
+    return hslToColor(values[0], values[1], values[2], alpha);
+  }
+  // `rgb(100%, 0, 0)` is also valid
+  const [red, green, blue] = values
+    .slice(0, 3)
+    .map((value, i) => (_.get(units[i], 'type') === '%' ? value : value / 255));
+  return createColor(red, green, blue, alpha);
+}
+
+/**
+ * Finds the range of color node in source text. Only `Ident` and `RGBA` nodes report start column,
+ * `Call` nodes report the column where the call ends
+ * @param {StylusNode} node
+ * @param {String[]} text - text splitted by lines
+ * @return {Range | null}
+ */
+function _colorRange(node: StylusNode, text: string[]): Range | null {
+  const lineno = node.lineno - 1;
+  const lineText = text[lineno];
+  if (lineText === undefined) {
+    return null;
+  }
+  if (node.__type === 'Call') {
+    const end = lineText.lastIndexOf(')', node.column - 1);
+    const start = lineText.lastIndexOf(node.name + '(', end);
+    return start === -1 || end === -1 ? null : Range.create(lineno, start, lineno, end + 1);
+  }
+  const raw = node.__type === 'RGBA' ? node.raw! : node.name;
+  const start = lineText.indexOf(raw, node.column - 1);
+  return start === -1 ? null : Range.create(lineno, start, lineno, start + raw.length);
+}
+
+function _nodeColor(node: StylusNode): Color | null {
+  if (node.__type === 'RGBA') {
+    return createColor(node.r! / 255, node.g! / 255, node.b! / 255, node.a!);
+  }
+  if (node.__type === 'Ident') {
+    const rgba = namedColors[node.name];
+    return rgba ? createColor(rgba[0] / 255, rgba[1] / 255, rgba[2] / 255, rgba[3]) : null;
+  }
+  return _callColor(node);
+}
+
+export function findDocumentColors(document: TextDocument): ColorInformation[] {
+  const ast = buildAst(document.getText());
+  if (!ast) {
+    return [];
+  }
+  const text = document.getText().split(/\r?\n/);
+  const colors: ColorInformation[] = [];
+  walk(ast, node => {
+    // Only identifiers used as values are colors, not variables named `red`
+    if (!isColor(node) || (node.__type === 'Ident' && node.val && node.val.__type !== 'Null')) {
+      return;
+    }
+    const color = _nodeColor(node);
+    const range = color && _colorRange(node, text);
+    if (color && range) {
+      colors.push({ color, range });
+    }
+  });
+  // Some nodes are reachable from more than one parent
+  return _.uniqBy(colors, ({ range }) => `${range.start.line}:${range.start.character}`);
+}
+
+function toTwoDigitHex(n: number) {
+  const hex = Math.round(n).toString(16);
+  return hex.length === 1 ? '0' + hex : hex;
+}
+
+export function getColorPresentations(document: TextDocument, color: Color, range: Range): ColorPresentation[] {
+  const red = Math.round(color.red * 255);
+  const green = Math.round(color.green * 255);
+  const blue = Math.round(color.blue * 255);
+  const alpha = Math.round(color.alpha * 100) / 100;
+  const { h, s, l } = colorToHsl(color);
+  const hsl = `${Math.round(h)}, ${Math.round(s * 100)}%, ${Math.round(l * 100)}%`;
+
+  const labels =
+    alpha === 1
+      ? [
+          `rgb(${red}, ${green}, ${blue})`,
+          `#${toTwoDigitHex(red)}${toTwoDigitHex(green)}${toTwoDigitHex(blue)}`,
+          `hsl(${hsl})`
+        ]
+      : [
+          `rgba(${red}, ${green}, ${blue}, ${alpha})`,
+          `#${toTwoDigitHex(red)}${toTwoDigitHex(green)}${toTwoDigitHex(blue)}${toTwoDigitHex(color.alpha * 255)}`,
+          `hsla(${hsl}, ${alpha})`
+        ];
+  return labels.map(label => ({ label, textEdit: TextEdit.replace(range, label) }));
+}
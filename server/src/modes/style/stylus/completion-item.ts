@@ -147,7 +147,7 @@ function _selectorCallSymbol(node: StylusNode, text: string[]): CompletionItem {
   return completionItem;
 }
 
-function isVisible(useSite: number[] | undefined, defSite: number[] | undefined) {
+export function isVisible(useSite: number[] | undefined, defSite: number[] | undefined) {
   if (!useSite || !defSite) {
     return true;
   }
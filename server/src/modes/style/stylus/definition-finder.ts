@@ -0,0 +1,87 @@
+import { TextDocument, Position, Location, Range } from 'vscode-languageserver-types';
+
+import {
+  StylusNode,
+  buildAst,
+  flattenAndFilterAst,
+  findNodeAtPosition,
+  isFunctionNode,
+  isVariableNode
+} from './parser';
+import { isVisible } from './completion-item';
+import { findImportedFiles, getTopLevelDeclarations } from './import-resolver';
+import { getFileFsPath } from '../../../utils/paths';
+
+import * as _ from 'lodash';
+
+/**
+ * Returns the identifier under position, e.g. `$foo`, `my-mixin`
+ * @param {String} lineText
+ * @param {Number} character
+ * @return {String}
+ */
+function getWordAt(lineText: string, character: number): string {
+  const wordRE = /[\w$-]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordRE.exec(lineText))) {
+    if (match.index <= character && character <= match.index + match[0].length) {
+      return match[0];
+    }
+  }
+  return '';
+}
+
+/**
+ * Builds location for a variable, function or mixin declaration
+ * @param {StylusNode} node
+ * @param {String[]} text - text splitted by lines
+ * @param {String} uri
+ * @return {Location}
+ */
+function _declarationLocation(node: StylusNode, text: string[], uri: string): Location {
+  const name = node.name;
+  const lineno = Number(node.val!.lineno) - 1;
+  const column = Math.max(text[lineno].indexOf(name), 0);
+  return Location.create(uri, Range.create(lineno, column, lineno, column + name.length));
+}
+
+/**
+ * Returns declarations of the variable, function or mixin under position.
+ * Declarations in the same block are preferred, then the ones in imported `.styl` files
+ * @param {TextDocument} document
+ * @param {Position} position
+ * @return {Location[]}
+ */
+export function provideDefinitionLocation(document: TextDocument, position: Position): Location[] {
+  const text = document.getText();
+  const ast = buildAst(text);
+  if (!ast) {
+    return [];
+  }
+  const splittedText = text.split('\n');
+  const lineText = splittedText[position.line] || '';
+  const word = getWordAt(lineText, position.character);
+  if (!word) {
+    return [];
+  }
+
+  // Call nodes report the column where the call ends, so look up the scope from the end of line
+  const node = findNodeAtPosition(ast, Position.create(position.line, lineText.length));
+  const scope = node ? node.__scope : undefined;
+  const declarations = flattenAndFilterAst(ast).filter(
+    item => (isVariableNode(item) || isFunctionNode(item)) && item.name === word && isVisible(scope, item.__scope)
+  );
+  if (declarations.length > 0) {
+    // Stylus variables can be reassigned, the closest preceding one wins
+    const preceding = declarations.filter(item => Number(item.val!.lineno) - 1 <= position.line);
+    const declaration = _.last(preceding) || declarations[0];
+    return [_declarationLocation(declaration, splittedText, document.uri)];
+  }
+
+  const { files } = findImportedFiles(ast, getFileFsPath(document.uri));
+  return _.flatMap(files, file =>
+    getTopLevelDeclarations(file)
+      .filter(item => item.name === word)
+      .map(item => _declarationLocation(item, file.text, file.uri))
+  );
+}
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Uri from 'vscode-uri';
+
+import { StylusNode, buildAst, flattenAndFilterAst, isFunctionNode, isVariableNode } from './parser';
+
+import * as _ from 'lodash';
+
+export interface ImportedFile {
+  uri: string;
+  ast: StylusNode;
+  /**
+   * text of the file splitted by lines
+   */
+  text: string[];
+}
+
+export interface ImportedFiles {
+  files: ImportedFile[];
+  /**
+   * Whether some `@import` could not be resolved to a `.styl` file, e.g. `@import 'nib'`
+   */
+  hasUnresolved: boolean;
+}
+
+/**
+ * Resolves `@import` / `@require` paths the way stylus does: `foo` may refer to `foo.styl` or `foo/index.styl`
+ * @param {String} importPath
+ * @param {String} baseDir
+ * @return {String | undefined}
+ */
+function resolveImport(importPath: string, baseDir: string): string | undefined {
+  const fullPath = path.resolve(baseDir, importPath);
+  const candidates =
+    path.extname(fullPath) === '.styl' ? [fullPath] : [fullPath + '.styl', path.join(fullPath, 'index.styl')];
+  return candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+}
+
+/**
+ * Parses `.styl` files imported from `ast`, recursively
+ * @param {StylusNode} ast
+ * @param {String} fsPath - path of the file that `ast` comes from
+ * @return {ImportedFiles}
+ */
+export function findImportedFiles(ast: StylusNode, fsPath: string, visited = new Set<string>()): ImportedFiles {
+  visited.add(fsPath);
+  const importPaths = flattenAndFilterAst(ast)
+    .filter(node => node.__type === 'Import')
+    .map(node => _.get(node, ['path', 'nodes', 0, 'val']));
+
+  const result: ImportedFiles = { files: [], hasUnresolved: false };
+  for (const importPath of importPaths) {
+    const resolved = typeof importPath === 'string' ? resolveImport(importPath, path.dirname(fsPath)) : undefined;
+    if (!resolved) {
+      result.hasUnresolved = true;
+      continue;
+    }
+    if (visited.has(resolved)) {
+      continue;
+    }
+    const text = fs.readFileSync(resolved, 'utf-8');
+    const importedAst = buildAst(text);
+    if (!importedAst) {
+      result.hasUnresolved = true;
+      continue;
+    }
+    result.files.push({ uri: Uri.file(resolved).toString(), ast: importedAst, text: text.split('\n') });
+
+    const nested = findImportedFiles(importedAst, resolved, visited);
+    result.files.push(...nested.files);
+    result.hasUnresolved = result.hasUnresolved || nested.hasUnresolved;
+  }
+  return result;
+}
+
+/**
+ * Returns variable, function and mixin declarations at the top level of an imported file
+ * @param {ImportedFile} file
+ * @return {StylusNode[]}
+ */
+export function getTopLevelDeclarations(file: ImportedFile): StylusNode[] {
+  return flattenAndFilterAst(file.ast).filter(
+    node => (isVariableNode(node) || isFunctionNode(node)) && _.isEmpty(node.__scope)
+  );
+}
@@ -7,10 +7,14 @@ import { Priority } from '../emmet';
 import { LanguageModelCache, getLanguageModelCache } from '../../languageModelCache';
 import { LanguageMode } from '../../languageModes';
 import { VueDocumentRegions } from '../../embeddedSupport';
+import { getExternalStylesheets, toSourceDiagnostics } from '../externalStylesheets';
 
 import { provideCompletionItems } from './completion-item';
 import { provideDocumentSymbols } from './symbols-finder';
 import { stylusHover } from './stylus-hover';
+import { provideDefinitionLocation } from './definition-finder';
+import { doValidation } from './stylus-validation';
+import { findDocumentColors, getColorPresentations } from './color-provider';
 
 export function getStylusMode(documentRegions: LanguageModelCache<VueDocumentRegions>): LanguageMode {
   const embeddedDocuments = getLanguageModelCache(10, 60, document =>
@@ -25,7 +29,16 @@ export function getStylusMode(documentRegions: LanguageModelCache<VueDocumentReg
       config = c;
     },
     onDocumentRemoved() {},
-    dispose() {},
+    dispose() {
+      embeddedDocuments.dispose();
+    },
+    doValidation(document) {
+      const embedded = embeddedDocuments.get(document);
+      const external = getExternalStylesheets(document, documentRegions.get(document), 'stylus');
+      return doValidation(embedded).concat(
+        _.flatMap(external, s => toSourceDiagnostics(document, s, doValidation(s.document)))
+      );
+    },
     doComplete(document, position) {
       const embedded = embeddedDocuments.get(document);
 
@@ -55,19 +68,32 @@ export function getStylusMode(documentRegions: LanguageModelCache<VueDocumentReg
     },
     findDocumentSymbols(document) {
       const embedded = embeddedDocuments.get(document);
-      return provideDocumentSymbols(embedded);
+      const external = getExternalStylesheets(document, documentRegions.get(document), 'stylus');
+      return _.flatMap([embedded, ...external.map(s => s.document)], provideDocumentSymbols);
     },
     doHover(document, position) {
       const embedded = embeddedDocuments.get(document);
       return stylusHover(embedded, position);
     },
+    findDefinition(document, position) {
+      const embedded = embeddedDocuments.get(document);
+      return provideDefinitionLocation(embedded, position);
+    },
+    findDocumentColors(document) {
+      const embedded = embeddedDocuments.get(document);
+      return findDocumentColors(embedded);
+    },
+    getColorPresentations(document, color, range) {
+      const embedded = embeddedDocuments.get(document);
+      return getColorPresentations(embedded, color, range);
+    },
     format(document, range, formatParams) {
       if (config.vetur.format.defaultFormatter.stylus === 'none') {
         return [];
       }
 
-      const embedded = embeddedDocuments.get(document);
-      const inputText = embedded.getText();
+      // each block is formatted on its own
+      const inputText = document.getText(range).replace(/^\s*\n/, '');
 
       const tabStopChar = formatParams.insertSpaces ? ' '.repeat(formatParams.tabSize) : '\t';
 
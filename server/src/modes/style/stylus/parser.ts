@@ -17,9 +17,13 @@ type NodeName =
   | 'Root'
   | 'Block'
   | 'Expression'
-  | 'Rgba'
+  | 'RGBA'
+  | 'Unit'
+  | 'Arguments'
   | 'Property'
-  | 'Object';
+  | 'Object'
+  | 'Each'
+  | 'Null';
 
 export interface StylusNode {
   __type: NodeName;
@@ -34,6 +38,13 @@ export interface StylusNode {
   block?: StylusNode;
   __scope?: number[];
   string?: string;
+  args?: StylusNode;
+  // RGBA node
+  raw?: string;
+  r?: number;
+  g?: number;
+  b?: number;
+  a?: number;
 }
 
 const stylus = require('stylus');
@@ -93,7 +104,7 @@ export function isColor(node: StylusNode): boolean {
   if (node.__type === 'Ident' && cssColors.indexOf(node.name) >= 0) {
     return true;
   }
-  if (node.__type === 'Rgba') {
+  if (node.__type === 'RGBA') {
     return true;
   }
   if (node.__type === 'Call' && ['rgb', 'rgba', 'hsl', 'hsla'].indexOf(node.name) >= 0) {
@@ -119,6 +130,38 @@ export function buildAst(text: string): StylusNode | null {
   }
 }
 
+export interface StylusParseError {
+  message: string;
+  lineno: number;
+  column: number;
+}
+
+/**
+ * Parses text editor content and returns the syntax error, if any.
+ * Stylus errors carry no position, so the position of the token being parsed when it failed is used
+ * @param {string} text - text editor content
+ * @return {StylusParseError | null}
+ */
+export function findParseError(text: string): StylusParseError | null {
+  const parser = new stylus.Parser(text);
+  try {
+    parser.parse();
+    return null;
+  } catch (error) {
+    let token: { lineno: number; column: number } | undefined;
+    try {
+      token = parser.peek();
+    } catch (e) {
+      token = undefined;
+    }
+    return {
+      message: error.message,
+      lineno: token ? token.lineno : parser.lexer.lineno,
+      column: token ? token.column : parser.lexer.column
+    };
+  }
+}
+
 /**
  * Add scope info to ast
  * @param {StylusNode} root the stylus node
@@ -0,0 +1,116 @@
+import { TextDocument, Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver-types';
+
+import { StylusNode, buildAst, findParseError, flattenAndFilterAst, isFunctionNode, isVariableNode } from './parser';
+import { findPropertySchema } from './completion-item';
+import { findImportedFiles, getTopLevelDeclarations } from './import-resolver';
+import { getFileFsPath } from '../../../utils/paths';
+
+import * as cssSchema from './css-schema';
+import * as _ from 'lodash';
+
+const globalValues = ['inherit', 'initial', 'unset', 'revert'];
+
+/**
+ * Builds diagnostic for the syntax error reported by stylus parser
+ * @param {TextDocument} document
+ * @return {Diagnostic[]}
+ */
+function _syntaxDiagnostics(document: TextDocument): Diagnostic[] {
+  const error = findParseError(document.getText());
+  if (!error) {
+    return [];
+  }
+  // The failing token may be past the end of document, e.g. "unexpected eos"
+  const start = document.positionAt(
+    document.offsetAt({ line: error.lineno - 1, character: Math.max(error.column - 1, 0) })
+  );
+  const lineText = document.getText().split(/\r?\n/)[start.line] || '';
+  const end = { line: start.line, character: Math.max(lineText.trimRight().length, start.character) };
+  return [
+    {
+      range: Range.create(start, end),
+      message: error.message,
+      source: 'stylus',
+      severity: DiagnosticSeverity.Error
+    }
+  ];
+}
+
+/**
+ * Lints property names and keyword values against css schema
+ * @param {TextDocument} document
+ * @param {StylusNode} ast
+ * @return {Diagnostic[]}
+ */
+function _schemaDiagnostics(document: TextDocument, ast: StylusNode): Diagnostic[] {
+  const nodes = flattenAndFilterAst(ast);
+  const imported = findImportedFiles(ast, getFileFsPath(document.uri));
+  const declarations = nodes.concat(_.flatMap(imported.files, getTopLevelDeclarations));
+  const functionNames = declarations.filter(isFunctionNode).map(node => node.name);
+  // `for value, key in list` loop variables
+  const loopVariableNames = nodes
+    .filter(node => node.__type === 'Each')
+    .map(node => [_.get(node, 'val'), _.get(node, 'key')]);
+  const variableNames = _.compact(_.flatten(loopVariableNames)).concat(
+    declarations.filter(isVariableNode).map(node => node.name)
+  );
+
+  const diagnostics: Diagnostic[] = [];
+  for (const node of nodes) {
+    if (node.__type !== 'Property' || node.segments.length !== 1 || node.segments[0].__type !== 'Ident') {
+      continue;
+    }
+    const name = node.segments[0].name;
+    const lineno = node.lineno - 1;
+    const column = node.column - 1;
+    // vendor prefixes, custom properties and property lookup like `@width`
+    if (/^[-$@]/.test(name)) {
+      continue;
+    }
+
+    const property = findPropertySchema(cssSchema, name);
+    if (!property) {
+      // Mixins can be called like properties, and unresolved imports may declare them
+      if (functionNames.indexOf(name) === -1 && !imported.hasUnresolved) {
+        diagnostics.push({
+          range: Range.create(lineno, column, lineno, column + name.length),
+          message: `Unknown property: '${name}'`,
+          source: 'stylus',
+          severity: DiagnosticSeverity.Warning
+        });
+      }
+      continue;
+    }
+
+    const values = (node.expr && node.expr.nodes || []).filter(value => value.__type !== 'Literal');
+    if (property.restriction !== 'enum' || !property.values || values.length !== 1 || values[0].__type !== 'Ident') {
+      continue;
+    }
+    const value = values[0];
+    const valueName = value.name;
+    if (
+      globalValues.indexOf(valueName) !== -1 ||
+      variableNames.indexOf(valueName) !== -1 ||
+      property.values.some(item => item.name === valueName) ||
+      imported.hasUnresolved
+    ) {
+      continue;
+    }
+    diagnostics.push({
+      range: Range.create(value.lineno - 1, value.column - 1, value.lineno - 1, value.column - 1 + valueName.length),
+      message: `Invalid value for '${name}': '${valueName}'`,
+      source: 'stylus',
+      severity: DiagnosticSeverity.Warning
+    });
+  }
+  return diagnostics;
+}
+
+export function doValidation(document: TextDocument): Diagnostic[] {
+  const syntaxDiagnostics = _syntaxDiagnostics(document);
+  if (syntaxDiagnostics.length > 0) {
+    return syntaxDiagnostics;
+  }
+  const ast = buildAst(document.getText());
+  return ast ? _schemaDiagnostics(document, ast) : [];
+}
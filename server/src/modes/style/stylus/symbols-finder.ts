@@ -160,5 +160,6 @@ export function provideDocumentSymbols(document: TextDocument): SymbolInformatio
   const rawSymbols = _.compact(flattenAndFilterAst(ast));
   const symbolInfos = processRawSymbols(rawSymbols, text.split('\n'));
 
+  symbolInfos.forEach(symbol => (symbol.location.uri = document.uri));
   return _.uniqBy(symbolInfos, _buildHashFromSymbol);
 }
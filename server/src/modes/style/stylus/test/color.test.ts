@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { TextDocument, Range } from 'vscode-languageserver-types';
+import { Color } from 'vscode-languageserver-protocol/lib/protocol.colorProvider.proposed';
+
+import { findDocumentColors, getColorPresentations } from '../color-provider';
+
+function colorsOf(lines: string[]) {
+  const document = TextDocument.create('test://test/test.styl', 'stylus', 0, lines.join('\n'));
+  return findDocumentColors(document).map(({ color, range }) => ({
+    text: document.getText(range),
+    rgba: [color.red * 255, color.green * 255, color.blue * 255, color.alpha].map(n => Math.round(n * 100) / 100)
+  }));
+}
+
+suite('Stylus Color', () => {
+  test('find colors', () => {
+    const colors = colorsOf([
+      'primary = #41b883',
+      '.test',
+      '  color red',
+      '  background: rgba(0, 0, 255, .5)',
+      '  border 1px solid hsl(120, 100%, 50%)',
+      '  outline-color #ff000080'
+    ]);
+    assert.deepEqual(colors, [
+      { text: '#41b883', rgba: [65, 184, 131, 1] },
+      { text: 'red', rgba: [255, 0, 0, 1] },
+      { text: 'rgba(0, 0, 255, .5)', rgba: [0, 0, 255, 0.5] },
+      { text: 'hsl(120, 100%, 50%)', rgba: [0, 255, 0, 1] },
+      { text: '#ff000080', rgba: [255, 0, 0, 0.5] }
+    ]);
+  });
+
+  test('ignore non-literal colors', () => {
+    assert.deepEqual(colorsOf(['red = #f00', '.test', '  color rgba(red, .5)', '  width 1px']), [
+      { text: '#f00', rgba: [255, 0, 0, 1] },
+      { text: 'red', rgba: [255, 0, 0, 1] }
+    ]);
+  });
+
+  test('color presentations', () => {
+    const document = TextDocument.create('test://test/test.styl', 'stylus', 0, '.test\n  color red');
+    const range = Range.create(1, 8, 1, 11);
+    const labels = (color: Color) => getColorPresentations(document, color, range).map(p => p.label);
+
+    assert.deepEqual(labels({ red: 1, green: 0, blue: 0, alpha: 1 }), [
+      'rgb(255, 0, 0)',
+      '#ff0000',
+      'hsl(0, 100%, 50%)'
+    ]);
+    assert.deepEqual(labels({ red: 0, green: 0, blue: 1, alpha: 0.5 }), [
+      'rgba(0, 0, 255, 0.5)',
+      '#0000ff80',
+      'hsla(240, 100%, 50%, 0.5)'
+    ]);
+    const [presentation] = getColorPresentations(document, { red: 1, green: 0, blue: 0, alpha: 1 }, range);
+    assert.deepEqual(presentation.textEdit!.range, range);
+  });
+});
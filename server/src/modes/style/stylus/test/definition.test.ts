@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import Uri from 'vscode-uri';
+import { TextDocument, Location } from 'vscode-languageserver-types';
+
+import { provideDefinitionLocation } from '../definition-finder';
+
+const fixtureDir = path.resolve(__dirname, '../../../../../test/fixtures/stylus');
+const docUri = Uri.file(path.join(fixtureDir, 'test.styl')).toString();
+
+function definitionAt(content: string) {
+  const offset = content.indexOf('|');
+  const text = content.substr(0, offset) + content.substr(offset + 1);
+  const document = TextDocument.create(docUri, 'stylus', 0, text);
+  return provideDefinitionLocation(document, document.positionAt(offset));
+}
+
+function assertLocation(location: Location, file: string, line: number, character: number) {
+  assert.equal(Uri.parse(location.uri).fsPath, path.join(fixtureDir, file));
+  assert.equal(location.range.start.line, line);
+  assert.equal(location.range.start.character, character);
+}
+
+suite('Stylus Definition', () => {
+  test('variable', () => {
+    const locations = definitionAt(['main-color = red', '.test', '  color main-c|olor'].join('\n'));
+    assert.equal(locations.length, 1);
+    assertLocation(locations[0], 'test.styl', 0, 0);
+  });
+
+  test('reassigned variable', () => {
+    const locations = definitionAt(['size = 1px', 'size = 2px', '.test', '  width si|ze'].join('\n'));
+    assert.equal(locations.length, 1);
+    assertLocation(locations[0], 'test.styl', 1, 0);
+  });
+
+  test('variable in other block', () => {
+    const locations = definitionAt(['.a', '  size = 1px', '.b', '  width si|ze'].join('\n'));
+    assert.equal(locations.length, 0);
+  });
+
+  test('mixin and function', () => {
+    const mixin = definitionAt(['centered()', '  margin auto', '.test', '  cent|ered()'].join('\n'));
+    assert.equal(mixin.length, 1);
+    assertLocation(mixin[0], 'test.styl', 0, 0);
+
+    const func = definitionAt(['double(n)', '  n * 2', '.test', '  width dou|ble(2px)'].join('\n'));
+    assert.equal(func.length, 1);
+    assertLocation(func[0], 'test.styl', 0, 0);
+  });
+
+  test('imported declarations', () => {
+    const variable = definitionAt(["@import 'variables'", '.test', '  color brand-co|lor'].join('\n'));
+    assert.equal(variable.length, 1);
+    assertLocation(variable[0], 'variables.styl', 2, 0);
+
+    const mixin = definitionAt(["@import './variables.styl'", '.test', '  border|ed(1px)'].join('\n'));
+    assert.equal(mixin.length, 1);
+    assertLocation(mixin[0], path.join('mixins', 'index.styl'), 0, 0);
+  });
+});
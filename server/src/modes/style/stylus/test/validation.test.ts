@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import Uri from 'vscode-uri';
+import { TextDocument, DiagnosticSeverity } from 'vscode-languageserver-types';
+
+import { doValidation } from '../stylus-validation';
+
+const fixtureDir = path.resolve(__dirname, '../../../../../test/fixtures/stylus');
+const docUri = Uri.file(path.join(fixtureDir, 'test.styl')).toString();
+
+function validate(lines: string[]) {
+  return doValidation(TextDocument.create(docUri, 'stylus', 0, lines.join('\n')));
+}
+
+suite('Stylus Validation', () => {
+  test('valid stylus', () => {
+    const diagnostics = validate([
+      'size = 10px',
+      'centered()',
+      '  margin auto',
+      '.test',
+      '  display flex',
+      '  cursor: pointer !important',
+      '  -webkit-appearance none',
+      '  width size',
+      '  centered()',
+      '  float inherit',
+      'for kind in block inline',
+      '  .is-{kind}',
+      '    display kind'
+    ]);
+    assert.deepEqual(diagnostics, []);
+  });
+
+  test('syntax error', () => {
+    const diagnostics = validate(['.test', '  color red', '  width (1px', '.other', '  color blue']);
+    assert.equal(diagnostics.length, 1);
+    assert.equal(diagnostics[0].severity, DiagnosticSeverity.Error);
+    assert.equal(diagnostics[0].message, 'expected ")", got "outdent"');
+    assert.equal(diagnostics[0].range.start.line, 2);
+  });
+
+  test('syntax error at end of document', () => {
+    const diagnostics = validate(['size = ']);
+    assert.equal(diagnostics.length, 1);
+    assert.equal(diagnostics[0].range.start.line, 0);
+  });
+
+  test('unknown property', () => {
+    const diagnostics = validate(['.test', '  colr red']);
+    assert.equal(diagnostics.length, 1);
+    assert.equal(diagnostics[0].severity, DiagnosticSeverity.Warning);
+    assert.equal(diagnostics[0].message, "Unknown property: 'colr'");
+    assert.deepEqual(diagnostics[0].range, { start: { line: 1, character: 2 }, end: { line: 1, character: 6 } });
+  });
+
+  test('invalid value', () => {
+    const diagnostics = validate(['.test', '  display: flexx']);
+    assert.equal(diagnostics.length, 1);
+    assert.equal(diagnostics[0].message, "Invalid value for 'display': 'flexx'");
+    assert.deepEqual(diagnostics[0].range, { start: { line: 1, character: 11 }, end: { line: 1, character: 16 } });
+  });
+
+  test('imported mixins and variables', () => {
+    assert.deepEqual(validate(["@import 'variables'", '.test', '  bordered 1px']), []);
+    assert.deepEqual(validate(["@import 'nib'", '.test', '  clearfix()', '  display flex-box']), []);
+  });
+});
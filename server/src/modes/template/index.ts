@@ -1,6 +1,6 @@
 import { LanguageModelCache, getLanguageModelCache } from '../languageModelCache';
 import { DocumentContext } from '../../service';
-import { TextDocument, Position, Range, FormattingOptions } from 'vscode-languageserver-types';
+import { TextDocument, Position, Range, FormattingOptions, CompletionItem } from 'vscode-languageserver-types';
 import { LanguageMode } from '../languageModes';
 import { VueDocumentRegions } from '../embeddedSupport';
 
@@ -14,10 +14,13 @@ import { htmlFormat } from './services/htmlFormat';
 import { parseHTMLDocument } from './parser/htmlParser';
 import { doValidation, createLintEngine } from './services/htmlValidation';
 import { findDefinition } from './services/htmlDefinition';
+import { generateTemplateCode, toGeneratedOffset, TemplateCode } from './services/templateCode';
+import { findComponentAttributes } from './services/componentAttributes';
 import { getTagProviderSettings } from './tagProviders';
 import { ScriptMode } from '../script/javascript';
-import { getComponentTags, getEnabledTagProviders } from './tagProviders';
+import { getComponentTags, getImportableComponentTags, getEnabledTagProviders } from './tagProviders';
 
+import { hyphenate } from '../../utils/strings';
 import * as _ from 'lodash';
 
 type DocumentRegionCache = LanguageModelCache<VueDocumentRegions>;
@@ -33,9 +36,33 @@ export function getVueHTMLMode(
     documentRegions.get(document).getEmbeddedDocument('vue-html')
   );
   const vueDocuments = getLanguageModelCache<HTMLDocument>(10, 60, document => parseHTMLDocument(document));
+  const templateCodes = getLanguageModelCache<TemplateCode>(10, 60, document => {
+    const embedded = embeddedDocuments.get(document);
+    return generateTemplateCode(embedded, vueDocuments.get(embedded));
+  });
   const lintEngine = createLintEngine();
+
+  // `:prop` or `@event` attribute at `offset` on a component tag
+  function findComponentAttributeAt(document: TextDocument, offset: number) {
+    const embedded = embeddedDocuments.get(document);
+    const attribute = findComponentAttributes(embedded, vueDocuments.get(embedded)).find(
+      a => a.offset <= offset && offset <= a.offset + a.name.length
+    );
+    if (!attribute) {
+      return undefined;
+    }
+    const components = scriptMode.findComponents(document);
+    return components.some(c => c.name === hyphenate(attribute.tag)) ? attribute : undefined;
+  }
+
   let config: any = {};
 
+  // dependencies in package.json enable tag providers
+  scriptMode.onDidChangeProject(() => {
+    tagProviderSettings = _.assign(getTagProviderSettings(workspacePath), _.get(config, ['html', 'suggest']));
+    enabledTagProviders = getEnabledTagProviders(tagProviderSettings);
+  });
+
   return {
     getId() {
       return 'vue-html';
@@ -47,16 +74,36 @@ export function getVueHTMLMode(
     },
     doValidation(document) {
       const embedded = embeddedDocuments.get(document);
-      return doValidation(embedded, lintEngine);
+      const diagnostics = doValidation(embedded, lintEngine);
+      if (_.get(config, ['vetur', 'validation', 'templateExpressions'])) {
+        diagnostics.push(...scriptMode.doTemplateValidation(document, templateCodes.get(document)));
+      }
+      return diagnostics;
     },
     doComplete(document: TextDocument, position: Position) {
       const embedded = embeddedDocuments.get(document);
+      const offset = embedded.offsetAt(position);
+      const templateCode = generateTemplateCode(embedded, vueDocuments.get(embedded), offset);
+      if (toGeneratedOffset(templateCode.mappings, offset) !== undefined) {
+        return scriptMode.doTemplateComplete(document, templateCode, position);
+      }
       const components = scriptMode.findComponents(document);
       const tagProviders = enabledTagProviders.concat(getComponentTags(components));
+      if (_.get(config, ['vetur', 'completion', 'autoImport'])) {
+        const importable = scriptMode.findImportableComponents(document);
+        tagProviders.push(getImportableComponentTags(importable, document.uri));
+      }
       return doComplete(embedded, position, vueDocuments.get(embedded), tagProviders, config.emmet);
     },
+    doResolve(document: TextDocument, item: CompletionItem) {
+      return scriptMode.doTemplateResolve(document, item);
+    },
     doHover(document: TextDocument, position: Position) {
       const embedded = embeddedDocuments.get(document);
+      const templateCode = templateCodes.get(document);
+      if (toGeneratedOffset(templateCode.mappings, embedded.offsetAt(position)) !== undefined) {
+        return scriptMode.doTemplateHover(document, templateCode, position);
+      }
       const components = scriptMode.findComponents(document);
       const tagProviders = enabledTagProviders.concat(getComponentTags(components));
       return doHover(embedded, position, vueDocuments.get(embedded), tagProviders);
@@ -65,7 +112,8 @@ export function getVueHTMLMode(
       return findDocumentHighlights(document, position, vueDocuments.get(document));
     },
     findDocumentLinks(document: TextDocument, documentContext: DocumentContext) {
-      return findDocumentLinks(document, documentContext);
+      // links of `<script src>` and `<style src>` are provided by the vue mode
+      return findDocumentLinks(embeddedDocuments.get(document), documentContext);
     },
     findDocumentSymbols(document: TextDocument) {
       return findDocumentSymbols(document, vueDocuments.get(document));
@@ -78,14 +126,52 @@ export function getVueHTMLMode(
     },
     findDefinition(document: TextDocument, position: Position) {
       const embedded = embeddedDocuments.get(document);
+      const templateCode = templateCodes.get(document);
+      if (toGeneratedOffset(templateCode.mappings, embedded.offsetAt(position)) !== undefined) {
+        return scriptMode.findTemplateDefinition(document, templateCode, position);
+      }
       const components = scriptMode.findComponents(document);
       return findDefinition(embedded, position, vueDocuments.get(embedded), components);
     },
+    findReferences(document: TextDocument, position: Position) {
+      const templateCode = templateCodes.get(document);
+      if (toGeneratedOffset(templateCode.mappings, document.offsetAt(position)) !== undefined) {
+        return scriptMode.findTemplateReferences(document, templateCode, position);
+      }
+      return [];
+    },
+    prepareRename(document: TextDocument, position: Position) {
+      const offset = document.offsetAt(position);
+      const templateCode = templateCodes.get(document);
+      if (toGeneratedOffset(templateCode.mappings, offset) !== undefined) {
+        return scriptMode.prepareTemplateRename(document, templateCode, position);
+      }
+      const attribute = findComponentAttributeAt(document, offset);
+      if (attribute) {
+        const end = attribute.offset + attribute.name.length;
+        return Range.create(document.positionAt(attribute.offset), document.positionAt(end));
+      }
+      return null;
+    },
+    doRename(document: TextDocument, position: Position, newName: string) {
+      const offset = document.offsetAt(position);
+      const templateCode = templateCodes.get(document);
+      if (toGeneratedOffset(templateCode.mappings, offset) !== undefined) {
+        return scriptMode.doTemplateRename(document, templateCode, position, newName);
+      }
+      const attribute = findComponentAttributeAt(document, offset);
+      if (attribute) {
+        return scriptMode.doComponentAttributeRename(document, attribute, newName);
+      }
+      return { changes: {} };
+    },
     onDocumentRemoved(document: TextDocument) {
       vueDocuments.onDocumentRemoved(document);
+      templateCodes.onDocumentRemoved(document);
     },
     dispose() {
       vueDocuments.dispose();
+      templateCodes.dispose();
     }
   };
 }
@@ -0,0 +1,51 @@
+import { TextDocument } from 'vscode-languageserver-types';
+import { HTMLDocument, Node } from '../parser/htmlParser';
+import { scanAttributes } from './templateCode';
+
+/**
+ * An attribute passing a prop or listening to an event on a tag, e.g. `:my-prop` or `@change`
+ */
+export interface ComponentAttribute {
+  tag: string;
+  kind: 'prop' | 'event';
+  // name without `:`, `v-bind:`, `@`, `v-on:` and modifiers
+  name: string;
+  offset: number;
+}
+
+export const NON_PROP_ATTRIBUTES = ['class', 'style', 'key', 'ref', 'slot', 'slot-scope', 'scope', 'is'];
+
+export function findComponentAttributes(document: TextDocument, htmlDocument: HTMLDocument): ComponentAttribute[] {
+  const text = document.getText();
+  const result: ComponentAttribute[] = [];
+
+  function walk(node: Node) {
+    if (node.tag) {
+      for (const attr of scanAttributes(text, node.start)) {
+        const attribute = toComponentAttribute(node.tag, attr.name, attr.nameStart);
+        if (attribute) {
+          result.push(attribute);
+        }
+      }
+    }
+    node.children.forEach(walk);
+  }
+
+  htmlDocument.roots.forEach(walk);
+  return result;
+}
+
+function toComponentAttribute(tag: string, attrName: string, start: number): ComponentAttribute | undefined {
+  const match = /^(v-bind:|:|v-on:|@)?([^.]*)/.exec(attrName)!;
+  const prefix = match[1] || '';
+  const name = match[2];
+  if (!name || (!prefix && name.startsWith('v-')) || NON_PROP_ATTRIBUTES.includes(name)) {
+    return undefined;
+  }
+  return {
+    tag,
+    kind: prefix === '@' || prefix === 'v-on:' ? 'event' : 'prop',
+    name,
+    offset: start + prefix.length
+  };
+}
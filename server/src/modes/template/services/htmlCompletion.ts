@@ -46,15 +46,19 @@ export function doComplete(
     const range = getReplaceRange(afterOpenBracket, tagNameEnd);
     tagProviders.forEach(provider => {
       const priority = provider.priority;
-      provider.collectTags((tag, label) => {
-        result.items.push({
+      provider.collectTags((tag, label, data) => {
+        const item: CompletionItem = {
           label: tag,
           kind: CompletionItemKind.Property,
           documentation: label,
           textEdit: TextEdit.replace(range, tag),
           sortText: priority + tag,
           insertTextFormat: InsertTextFormat.PlainText
-        });
+        };
+        if (data) {
+          item.data = data;
+        }
+        result.items.push(item);
       });
     });
     return result;
@@ -178,8 +182,9 @@ export function doComplete(
       range = getReplaceRange(valueStart, valueEnd);
       addQuotes = true;
     }
-    const tag = currentTag.toLowerCase();
     const attribute = currentAttributeName.toLowerCase();
+    // slot names are provided by the parent component
+    const tag = (attribute === 'slot' ? (node.parent && node.parent.tag) || '' : currentTag).toLowerCase();
     tagProviders.forEach(provider => {
       provider.collectValues(tag, attribute, value => {
         const insertText = addQuotes ? '"' + value + '"' : value;
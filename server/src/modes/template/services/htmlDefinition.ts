@@ -2,6 +2,7 @@ import { HTMLDocument } from '../parser/htmlParser';
 import { TokenType, createScanner } from '../parser/htmlScanner';
 import { TextDocument, Range, Position, Definition } from 'vscode-languageserver-types';
 import { ComponentInfo } from '../../script/findComponents';
+import { hyphenate } from '../../../utils/strings';
 
 const TRIVIAL_TOKEN = [TokenType.StartTagOpen, TokenType.EndTagOpen, TokenType.Whitespace];
 
@@ -17,7 +18,7 @@ export function findDefinition(
     return [];
   }
   function getTagDefinition(tag: string, range: Range, open: boolean): Definition {
-    tag = tag.toLowerCase();
+    tag = hyphenate(tag);
     for (const comp of componentInfos) {
       if (tag === comp.name) {
         return comp.definition || [];
@@ -25,6 +26,13 @@ export function findDefinition(
     }
     return [];
   }
+  function getPropDefinition(tag: string, attribute: string): Definition {
+    // `:user-id.sync` and `v-bind:userId` both refer to `userId` prop
+    const propName = hyphenate(attribute.replace(/^(:|v-bind:)/, '').replace(/\..*$/, ''));
+    const comp = componentInfos.find(c => c.name === hyphenate(tag));
+    const prop = comp && comp.props && comp.props.find(p => p.name === propName);
+    return (prop && prop.definition) || [];
+  }
 
   const inEndTag = node.endTagStart && offset >= node.endTagStart; // <html></ht|ml>
   const startOffset = inEndTag ? node.endTagStart : node.start;
@@ -62,6 +70,8 @@ export function findDefinition(
       return getTagDefinition(node.tag, tagRange, true);
     case TokenType.EndTag:
       return getTagDefinition(node.tag, tagRange, false);
+    case TokenType.AttributeName:
+      return getPropDefinition(node.tag, scanner.getTokenText());
   }
 
   return [];
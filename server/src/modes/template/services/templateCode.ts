@@ -0,0 +1,389 @@
+import * as ts from 'typescript';
+import { TextDocument } from 'vscode-languageserver-types';
+import { HTMLDocument, Node } from '../parser/htmlParser';
+import { TokenType, createScanner } from '../parser/htmlScanner';
+
+/**
+ * A chunk of generated code that is copied verbatim from the template
+ */
+export interface CodeMapping {
+  generatedStart: number;
+  originalStart: number;
+  length: number;
+}
+
+export interface TemplateCode {
+  code: string;
+  mappings: CodeMapping[];
+}
+
+// Globals that Vue exposes to template expressions, see vue/src/core/instance/proxy.js
+const allowedGlobals = [
+  'Infinity',
+  'undefined',
+  'NaN',
+  'isFinite',
+  'isNaN',
+  'parseFloat',
+  'parseInt',
+  'decodeURI',
+  'decodeURIComponent',
+  'encodeURI',
+  'encodeURIComponent',
+  'Math',
+  'Number',
+  'Date',
+  'Array',
+  'Object',
+  'Boolean',
+  'String',
+  'RegExp',
+  'Map',
+  'Set',
+  'JSON',
+  'Intl',
+  'require'
+];
+
+const forAliasRE = /([^]*?)\s+(?:in|of)\s+([^]*)/;
+
+/**
+ * Compile expressions in template into TypeScript statements.
+ * Free identifiers are prefixed with `this.` so they can be checked against the component instance,
+ * `v-for` and `slot-scope` introduce nested scopes.
+ * When `completionOffset` falls in an empty expression, a `this.` member access is generated there for completion.
+ */
+export function generateTemplateCode(
+  document: TextDocument,
+  htmlDocument: HTMLDocument,
+  completionOffset?: number
+): TemplateCode {
+  const text = document.getText();
+  const builder = new CodeBuilder();
+
+  function walk(node: Node, locals: string[], indent: string) {
+    if (node.isInterpolation) {
+      if (node.closed) {
+        const start = node.start + 2;
+        const exp = stripFilters(text.slice(start, node.end - 2));
+        addExpression(exp, start, locals, indent);
+      }
+      return;
+    }
+    if (!node.tag) {
+      node.children.forEach(c => walk(c, locals, indent));
+      return;
+    }
+    const attributes = scanAttributes(text, node.start);
+    if (attributes.some(a => a.name === 'v-pre')) {
+      return;
+    }
+
+    let closing = '';
+    const vFor = attributes.find(a => a.name === 'v-for');
+    if (vFor && vFor.value) {
+      const match = forAliasRE.exec(vFor.value);
+      if (match) {
+        const aliasMatch = /^\s*\(?([^]*?)\)?\s*$/.exec(match[1])!;
+        const aliasStart = vFor.valueStart + match[1].indexOf(aliasMatch[1]);
+        const source = match[2];
+        const sourceStart = vFor.valueStart + match[0].length - source.length;
+
+        builder.add(indent + '__vlsIterate(');
+        addRewritten(source, sourceStart, locals, false);
+        builder.add(', (');
+        builder.addMapped(aliasMatch[1], aliasStart);
+        builder.add(') => {\n');
+        locals = locals.concat(getBindingNames(aliasMatch[1]));
+        indent += '  ';
+        closing = indent.slice(2) + '});\n' + closing;
+      }
+    }
+
+    const slotScope = attributes.find(a => a.name === 'slot-scope' || a.name === 'scope');
+    if (slotScope && slotScope.value) {
+      builder.add(indent + '{\n' + indent + '  const ');
+      builder.addMapped(slotScope.value, slotScope.valueStart);
+      builder.add(': any = null;\n');
+      locals = locals.concat(getBindingNames(slotScope.value));
+      indent += '  ';
+      closing = indent.slice(2) + '}\n' + closing;
+    }
+
+    for (const attr of attributes) {
+      if (attr.value === undefined || !isExpressionAttribute(attr.name)) {
+        continue;
+      }
+      if (/^(@|v-on:|v-on$)/.test(attr.name)) {
+        builder.add(indent + '{\n' + indent + '  const $event: any = null;\n' + indent + '  ');
+        if (!addCompletionPlaceholder(attr.value, attr.valueStart)) {
+          addRewritten(attr.value, attr.valueStart, locals.concat('$event'), true);
+        }
+        builder.add('\n' + indent + '}\n');
+      } else {
+        addExpression(stripFilters(attr.value), attr.valueStart, locals, indent);
+      }
+    }
+
+    node.children.forEach(c => walk(c, locals, indent));
+    builder.add(closing);
+  }
+
+  function addExpression(exp: string, start: number, locals: string[], indent: string) {
+    if (exp.trim() === '' && !isCompletionTarget(exp, start)) {
+      return;
+    }
+    builder.add(indent + '(');
+    if (!addCompletionPlaceholder(exp, start)) {
+      addRewritten(exp, start, locals, false);
+    }
+    builder.add(');\n');
+  }
+
+  function isCompletionTarget(exp: string, start: number) {
+    return completionOffset !== undefined && start <= completionOffset && completionOffset <= start + exp.length;
+  }
+
+  function addCompletionPlaceholder(exp: string, start: number) {
+    if (exp.trim() !== '' || !isCompletionTarget(exp, start)) {
+      return false;
+    }
+    builder.add('this.');
+    builder.addMapping(completionOffset!);
+    return true;
+  }
+
+  function addRewritten(code: string, start: number, locals: string[], isStatement: boolean) {
+    const prefix = isStatement ? '' : '(';
+    const suffix = isStatement ? '' : ')';
+    const sourceFile = ts.createSourceFile('template.ts', prefix + code + suffix, ts.ScriptTarget.Latest, true);
+    const insertions: { pos: number; text: string }[] = [];
+    findFreeIdentifiers(sourceFile, sourceFile, new Set(locals.concat(getDeclaredNames(sourceFile))), insertions);
+
+    let last = 0;
+    for (const insertion of insertions.sort((a, b) => a.pos - b.pos)) {
+      const pos = insertion.pos - prefix.length;
+      builder.addMapped(code.slice(last, pos), start + last);
+      builder.add(insertion.text);
+      last = pos;
+    }
+    builder.addMapped(code.slice(last), start + last);
+  }
+
+  htmlDocument.roots.forEach(root => walk(root, [], '  '));
+  return builder.build();
+}
+
+/**
+ * Map an offset in generated code back to the template
+ */
+export function toOriginalOffset(mappings: CodeMapping[], generatedOffset: number): number | undefined {
+  for (const m of mappings) {
+    if (m.generatedStart <= generatedOffset && generatedOffset <= m.generatedStart + m.length) {
+      return m.originalStart + generatedOffset - m.generatedStart;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Map an offset in template to the generated code
+ */
+export function toGeneratedOffset(mappings: CodeMapping[], originalOffset: number): number | undefined {
+  for (const m of mappings) {
+    if (m.originalStart <= originalOffset && originalOffset <= m.originalStart + m.length) {
+      return m.generatedStart + originalOffset - m.originalStart;
+    }
+  }
+  return undefined;
+}
+
+class CodeBuilder {
+  private code = '';
+  private mappings: CodeMapping[] = [];
+
+  add(text: string) {
+    this.code += text;
+  }
+
+  addMapping(originalStart: number) {
+    this.mappings.push({ generatedStart: this.code.length, originalStart, length: 0 });
+  }
+
+  addMapped(text: string, originalStart: number) {
+    if (text.length > 0) {
+      this.mappings.push({ generatedStart: this.code.length, originalStart, length: text.length });
+    }
+    this.code += text;
+  }
+
+  build(): TemplateCode {
+    return { code: this.code, mappings: this.mappings };
+  }
+}
+
+export interface AttributeInfo {
+  name: string;
+  nameStart: number;
+  value?: string;
+  valueStart: number;
+}
+
+/**
+ * Scan attributes of the start tag at `tagStart`, quotes are stripped from values
+ */
+export function scanAttributes(text: string, tagStart: number): AttributeInfo[] {
+  const scanner = createScanner(text, tagStart);
+  const attributes: AttributeInfo[] = [];
+  let token = scanner.scan();
+  while (
+    token !== TokenType.EOS &&
+    token !== TokenType.StartTagClose &&
+    token !== TokenType.StartTagSelfClose &&
+    token !== TokenType.EndTagOpen
+  ) {
+    if (token === TokenType.AttributeName) {
+      attributes.push({
+        name: scanner.getTokenText(),
+        nameStart: scanner.getTokenOffset(),
+        valueStart: scanner.getTokenEnd()
+      });
+    } else if (token === TokenType.AttributeValue && attributes.length > 0) {
+      const attr = attributes[attributes.length - 1];
+      let value = scanner.getTokenText();
+      let valueStart = scanner.getTokenOffset();
+      if (value[0] === '"' || value[0] === "'") {
+        value = value.slice(1, value[value.length - 1] === value[0] ? -1 : undefined);
+        valueStart++;
+      }
+      attr.value = value;
+      attr.valueStart = valueStart;
+    }
+    token = scanner.scan();
+  }
+  return attributes;
+}
+
+function isExpressionAttribute(name: string) {
+  if (/^[:@]/.test(name)) {
+    return true;
+  }
+  return /^v-/.test(name) && !/^v-(for|else|pre|cloak|once)$/.test(name);
+}
+
+/**
+ * Remove Vue filters such as `{{ msg | capitalize }}`, which are not valid expressions
+ */
+export function stripFilters(exp: string) {
+  let quote = '';
+  let depth = 0;
+  for (let i = 0; i < exp.length; i++) {
+    const ch = exp[i];
+    if (quote) {
+      if (ch === quote && exp[i - 1] !== '\\') {
+        quote = '';
+      }
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch;
+    } else if ('([{'.includes(ch)) {
+      depth++;
+    } else if (')]}'.includes(ch)) {
+      depth--;
+    } else if (ch === '|' && depth === 0 && exp[i + 1] !== '|' && exp[i - 1] !== '|') {
+      return exp.slice(0, i);
+    }
+  }
+  return exp;
+}
+
+function getBindingNames(params: string): string[] {
+  const sourceFile = ts.createSourceFile('template.ts', `(${params}) => 0`, ts.ScriptTarget.Latest);
+  const names: string[] = [];
+  const statement = sourceFile.statements[0];
+  if (statement && ts.isExpressionStatement(statement) && ts.isArrowFunction(statement.expression)) {
+    statement.expression.parameters.forEach(p => collectBindingNames(p.name, names));
+  }
+  return names;
+}
+
+function getDeclaredNames(sourceFile: ts.SourceFile): string[] {
+  const names: string[] = [];
+  sourceFile.statements.forEach(st => {
+    if (ts.isVariableStatement(st)) {
+      st.declarationList.declarations.forEach(d => collectBindingNames(d.name, names));
+    } else if (ts.isFunctionDeclaration(st) && st.name) {
+      names.push(st.name.text);
+    }
+  });
+  return names;
+}
+
+function collectBindingNames(name: ts.BindingName, names: string[]) {
+  if (ts.isIdentifier(name)) {
+    names.push(name.text);
+  } else {
+    for (const element of name.elements) {
+      if (!ts.isOmittedExpression(element)) {
+        collectBindingNames(element.name, names);
+      }
+    }
+  }
+}
+
+function findFreeIdentifiers(
+  node: ts.Node,
+  sourceFile: ts.SourceFile,
+  locals: Set<string>,
+  insertions: { pos: number; text: string }[]
+) {
+  if (ts.isTypeNode(node)) {
+    return;
+  }
+  if (ts.isIdentifier(node)) {
+    if (isReference(node) && !locals.has(node.text) && !allowedGlobals.includes(node.text)) {
+      const pos = node.getStart(sourceFile);
+      insertions.push({
+        pos,
+        text: node.parent && ts.isShorthandPropertyAssignment(node.parent) ? node.text + ': this.' : 'this.'
+      });
+    }
+    return;
+  }
+  if (ts.isFunctionLike(node)) {
+    const names: string[] = [];
+    node.parameters.forEach(p => collectBindingNames(p.name, names));
+    if (node.name && ts.isIdentifier(node.name)) {
+      names.push(node.name.text);
+    }
+    locals = new Set([...Array.from(locals), ...names]);
+  }
+  ts.forEachChild(node, child => findFreeIdentifiers(child, sourceFile, locals, insertions));
+}
+
+function isReference(id: ts.Identifier) {
+  const parent = id.parent;
+  if (!parent) {
+    return true;
+  }
+  if (ts.isPropertyAccessExpression(parent)) {
+    return parent.expression === id;
+  }
+  if (ts.isPropertyAssignment(parent) || ts.isMethodDeclaration(parent)) {
+    return parent.name !== id;
+  }
+  if (
+    ts.isParameter(parent) ||
+    ts.isVariableDeclaration(parent) ||
+    ts.isFunctionExpression(parent) ||
+    ts.isFunctionDeclaration(parent)
+  ) {
+    return parent.name !== id;
+  }
+  if (ts.isBindingElement(parent)) {
+    return parent.initializer === id;
+  }
+  if (ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent)) {
+    return false;
+  }
+  return true;
+}
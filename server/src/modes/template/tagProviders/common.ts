@@ -1,5 +1,6 @@
 interface TagCollector {
-  (tag: string, label: string): void;
+  // `data` is kept in the completion item for resolving it
+  (tag: string, label: string, data?: any): void;
 }
 
 export interface Attribute {
@@ -6,17 +6,23 @@ import {
   collectAttributesDefault,
   collectValuesDefault,
   genAttribute,
+  IValueSets,
   Priority
 } from './common';
 
 import { ComponentInfo } from '../../script/findComponents';
+import { ImportableComponent } from '../../script/componentRegistration';
 
 export function getComponentTags(components: ComponentInfo[]): IHTMLTagProvider {
   const tags: ITagSet = {};
+  const slots: IValueSets = {};
   for (const comp of components) {
     const compName = comp.name;
     const props = comp.props ? comp.props.map(s => genAttribute(s.name, undefined, s.doc)) : [];
-    tags[compName] = new HTMLTagSpecification('', props);
+    const events = comp.events ? comp.events.map(e => genAttribute(e.name, 'event', e.doc)) : [];
+    const model = getModelAttribute(comp);
+    tags[compName] = new HTMLTagSpecification('', props.concat(events, model ? [model] : []));
+    slots[compName] = (comp.slots || []).filter(s => s.name !== 'default').map(s => s.name);
   }
   return {
     getId: () => 'component',
@@ -26,7 +32,41 @@ export function getComponentTags(components: ComponentInfo[]): IHTMLTagProvider
       collectAttributesDefault(tag, collector, tags, []);
     },
     collectValues: (tag: string, attribute: string, collector: (value: string) => void) => {
+      if (attribute === 'slot') {
+        // `tag` is the parent component of the element with `slot` attribute
+        (slots[tag] || []).forEach(collector);
+        return;
+      }
       collectValuesDefault(tag, attribute, collector, tags, [], {});
     }
   };
 }
+
+/**
+ * Tags of components that are not registered yet, resolved with edits importing and registering them
+ */
+export function getImportableComponentTags(components: ImportableComponent[], uri: string): IHTMLTagProvider {
+  return {
+    getId: () => 'importable-component',
+    // after registered components
+    priority: Priority.Library,
+    collectTags: collector => {
+      for (const comp of components) {
+        const data = { languageId: 'vue-html', uri, componentFileName: comp.fileName };
+        collector(comp.name, `Import from '${comp.importPath}'`, data);
+      }
+    },
+    collectAttributes: () => {},
+    collectValues: () => {}
+  };
+}
+
+function getModelAttribute(comp: ComponentInfo) {
+  if (comp.model) {
+    return genAttribute('v-model', undefined, `Binds \`${comp.model.prop}\` prop and \`${comp.model.event}\` event`);
+  }
+  if (comp.props && comp.props.some(p => p.name === 'value')) {
+    return genAttribute('v-model', undefined, 'Binds `value` prop and `input` event');
+  }
+  return undefined;
+}
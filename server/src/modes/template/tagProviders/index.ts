@@ -3,7 +3,7 @@ import { getHTML5TagProvider } from './htmlTags';
 import { getVueTagProvider } from './vueTags';
 import { getRouterTagProvider } from './routerTags';
 import { elementTagProvider, onsenTagProvider, bootstrapTagProvider, vuetifyTagProvider } from './externalTagProviders';
-export { getComponentTags } from './componentTags';
+export { getComponentTags, getImportableComponentTags } from './componentTags';
 export { IHTMLTagProvider } from './common';
 
 import * as ts from 'typescript';
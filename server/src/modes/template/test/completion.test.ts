@@ -11,6 +11,7 @@ import { CompletionTestSetup, testDSL, CompletionAsserter } from '../../test-uti
 import { parseHTMLDocument } from '../parser/htmlParser';
 import { doComplete } from '../services/htmlCompletion';
 import { allTagProviders, getEnabledTagProviders } from '../tagProviders';
+import { getComponentTags } from '../tagProviders/componentTags';
 
 const setup: CompletionTestSetup = {
   langId: 'vue-html',
@@ -388,4 +389,28 @@ suite('HTML Completion', () => {
       .has('v-once')
       .become('<li v-once');
   });
+
+  test('Component events, slots and v-model', () => {
+    const componentTags = getComponentTags([
+      {
+        name: 'picker',
+        props: [{ name: 'selected' }],
+        events: [{ name: 'change' }, { name: 'close' }],
+        slots: [{ name: 'header', props: ['title'] }, { name: 'default', props: [] }],
+        model: { prop: 'selected', event: 'change' }
+      }
+    ]);
+    const component = testDSL({
+      langId: 'vue-html',
+      docUri: 'test://test/test.html',
+      doComplete(doc, pos) {
+        return doComplete(doc, pos, parseHTMLDocument(doc), [componentTags], {});
+      }
+    });
+
+    component`<picker @|`.has('change').has('close').hasNo('selected');
+    component`<picker |`.has('selected').has('v-model').hasNo('close');
+    component`<picker v-|`.has('v-model').withDoc('Binds `selected` prop and `change` event');
+    component`<picker><h1 slot="|"></h1></picker>`.has('header').hasNo('default');
+  });
 });
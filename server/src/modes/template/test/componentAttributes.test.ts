@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+
+import { TextDocument } from 'vscode-languageserver-types';
+import { parseHTMLDocument } from '../parser/htmlParser';
+import { findComponentAttributes } from '../services/componentAttributes';
+
+function findAttributes(template: string) {
+  const document = TextDocument.create('test://test/test.html', 'vue-html', 0, template);
+  return findComponentAttributes(document, parseHTMLDocument(document)).map(a => ({
+    kind: a.kind,
+    name: a.name,
+    text: template.substr(a.offset, a.name.length)
+  }));
+}
+
+suite('Component Attributes', () => {
+  test('Props and events', () => {
+    const template = '<comp :my-prop="a" title="b" v-bind:value.sync="c" @change="d" v-on:input.native="e">';
+    assert.deepEqual(findAttributes(template), [
+      { kind: 'prop', name: 'my-prop', text: 'my-prop' },
+      { kind: 'prop', name: 'title', text: 'title' },
+      { kind: 'prop', name: 'value', text: 'value' },
+      { kind: 'event', name: 'change', text: 'change' },
+      { kind: 'event', name: 'input', text: 'input' }
+    ]);
+  });
+
+  test('Ignored attributes', () => {
+    const template = '<comp v-if="a" class="b" :key="c" ref="d" v-bind="e"><p slot="f"></p></comp>';
+    assert.deepEqual(findAttributes(template), []);
+  });
+});
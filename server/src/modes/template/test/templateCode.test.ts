@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+
+import { TextDocument } from 'vscode-languageserver-types';
+import { parseHTMLDocument } from '../parser/htmlParser';
+import { generateTemplateCode, toOriginalOffset, toGeneratedOffset } from '../services/templateCode';
+
+function generate(template: string) {
+  const document = TextDocument.create('test://test/test.html', 'vue-html', 0, template);
+  return generateTemplateCode(document, parseHTMLDocument(document));
+}
+
+function assertCode(template: string, expected: string[]) {
+  const lines = generate(template)
+    .code.split('\n')
+    .map(l => l.trim())
+    .filter(l => l);
+  assert.deepEqual(lines, expected);
+}
+
+suite('Template Code', () => {
+  test('Interpolation', () => {
+    assertCode('<div>{{ msg }}</div>', ['( this.msg );']);
+    assertCode('<div>{{ user.name | capitalize }}</div>', ['( this.user.name );']);
+    assertCode('<div>{{ a || b }}</div>', ['( this.a || this.b );']);
+    assertCode('<div>{{ Math.max(a, 1) }}</div>', ['( Math.max(this.a, 1) );']);
+    assertCode('<div>{{ list.map(x => x + y) }}</div>', ['( this.list.map(x => x + this.y) );']);
+    assertCode('<div>{{ }}</div>', []);
+  });
+
+  test('Directives', () => {
+    assertCode('<div :title="msg" v-if="show"></div>', ['(this.msg);', '(this.show);']);
+    assertCode('<div :class="{ active, b: c }"></div>', ['({ active: this.active, b: this.c });']);
+    assertCode('<div @click="count++"></div>', ['{', 'const $event: any = null;', 'this.count++', '}']);
+    assertCode('<div @input="onInput($event)"></div>', ['{', 'const $event: any = null;', 'this.onInput($event)', '}']);
+    assertCode('<div v-pre>{{ msg }}</div>', []);
+  });
+
+  test('Scopes', () => {
+    assertCode('<li v-for="(item, i) in items" :key="item.id">{{ item.name + i + n }}</li>', [
+      '__vlsIterate(this.items, (item, i) => {',
+      '(item.id);',
+      '( item.name + i + this.n );',
+      '});'
+    ]);
+    assertCode('<comp slot-scope="{ row }">{{ row.a }}</comp>', [
+      '{',
+      'const { row }: any = null;',
+      '( row.a );',
+      '}'
+    ]);
+  });
+
+  test('Mappings', () => {
+    const template = '<div :title="msg">{{ user.name }}</div>';
+    const { code, mappings } = generate(template);
+    const msgOffset = template.indexOf('msg');
+    const generatedMsg = toGeneratedOffset(mappings, msgOffset)!;
+    assert.equal(code.substr(generatedMsg, 3), 'msg');
+    assert.equal(toOriginalOffset(mappings, generatedMsg), msgOffset);
+
+    const nameOffset = template.indexOf('name');
+    const generatedName = toGeneratedOffset(mappings, nameOffset)!;
+    assert.equal(code.substr(generatedName, 4), 'name');
+    assert.equal(toOriginalOffset(mappings, code.indexOf('this.')), undefined);
+  });
+});
@@ -1,6 +1,7 @@
 import * as assert from 'assert';
 import { TextDocument, Range } from 'vscode-languageserver-types';
 import { getDocumentRegions } from '../embeddedSupport';
+import { doValidation as doPugValidation } from '../pug/services/pugValidation';
 
 const defaultTemplate = `
 <div class="example">{{ msg }}</div>
@@ -222,4 +223,43 @@ suite('Embedded Support', () => {
     assert.equal(ranges.length, 3);
     assert.equal(ranges[1].languageId, 'javascript');
   });
+
+  test('pug template ending in a bracket', () => {
+    const content = `<template lang="pug">
+  div
+    p(id="a")
+</template>
+`;
+    const doc = TextDocument.create('test://test/test.vue', 'vue', 0, content);
+    const template = getDocumentRegions(doc).getEmbeddedDocument('pug');
+    assert(template.getText().endsWith('p(id="a")\n'));
+    assert.deepEqual(doPugValidation(template), []);
+  });
+
+  test('multiple style blocks', () => {
+    const content = `
+<style>
+.a { color: red; }
+</style>
+<style scoped lang="scss">
+.b { color: blue; }
+</style>
+<style scoped>
+.c { color: green; }
+</style>
+`;
+    const doc = TextDocument.create('test://test/test.vue', 'vue', 0, content);
+    const regions = getDocumentRegions(doc);
+    assert.deepEqual(regions.getLanguagesInDocument(), ['vue', 'css', 'scss']);
+
+    const css = regions.getEmbeddedDocument('css').getText();
+    assert.equal(css.indexOf('.a'), content.indexOf('.a'));
+    assert.equal(css.indexOf('.c'), content.indexOf('.c'));
+    assert.equal(css.indexOf('.b'), -1);
+    assert.equal(css.replace(/\S/g, ' '), content.slice(0, css.length).replace(/\S/g, ' '), 'keeps line breaks');
+
+    const scss = regions.getEmbeddedDocument('scss').getText();
+    assert.equal(scss.indexOf('.b'), content.indexOf('.b'));
+    assert.equal(scss.indexOf('.a'), -1);
+  });
 });
@@ -1,9 +1,24 @@
+import * as fs from 'fs';
+import { TextDocument, Location, Range, DocumentLink } from 'vscode-languageserver-types';
+import Uri from 'vscode-uri';
 import { LanguageMode } from '../languageModes';
+import { LanguageModelCache } from '../languageModelCache';
+import { VueDocumentRegions, ExternalSource } from '../embeddedSupport';
+import { resolveFsPath } from '../../utils/paths';
+import { NULL_HOVER } from '../nullMode';
 import { doScaffoldComplete } from './scaffoldCompletion';
+import { doSrcComplete } from './srcCompletion';
 
-export function getVueMode(): LanguageMode {
+export function getVueMode(documentRegions: LanguageModelCache<VueDocumentRegions>): LanguageMode {
   let config: any = {};
 
+  function getExternalSourceAt(document: TextDocument, offset: number): ExternalSource | undefined {
+    return documentRegions
+      .get(document)
+      .getExternalSources()
+      .find(s => s.start <= offset && offset <= s.end);
+  }
+
   return {
     getId() {
       return 'vue';
@@ -12,6 +27,10 @@ export function getVueMode(): LanguageMode {
       config = c;
     },
     doComplete(document, position) {
+      const source = getExternalSourceAt(document, document.offsetAt(position));
+      if (source) {
+        return doSrcComplete(document, source, document.offsetAt(position));
+      }
       if (!config.vetur.completion.useScaffoldSnippets) {
         return { isIncomplete: false, items: [] };
       }
@@ -27,6 +46,35 @@ export function getVueMode(): LanguageMode {
       }
       return ret;
     },
+    // the content of the file in `src`
+    doHover(document, position) {
+      const source = getExternalSourceAt(document, document.offsetAt(position));
+      if (!source) {
+        return NULL_HOVER;
+      }
+      const fileFsPath = resolveFsPath(document.uri, source.src);
+      if (!fs.existsSync(fileFsPath)) {
+        return NULL_HOVER;
+      }
+      return {
+        contents: { language: source.languageId, value: fs.readFileSync(fileFsPath, 'utf-8') },
+        range: Range.create(document.positionAt(source.start), document.positionAt(source.end))
+      };
+    },
+    // `<script src>` and `<style src>` open the external files
+    findDocumentLinks(document, documentContext) {
+      return documentRegions.get(document).getExternalSources().map(source => {
+        const range = Range.create(document.positionAt(source.start), document.positionAt(source.end));
+        return DocumentLink.create(range, documentContext.resolveReference(source.src, document.uri));
+      });
+    },
+    findDefinition(document, position) {
+      const source = getExternalSourceAt(document, document.offsetAt(position));
+      if (!source) {
+        return [];
+      }
+      return Location.create(Uri.file(resolveFsPath(document.uri, source.src)).toString(), Range.create(0, 0, 0, 0));
+    },
     onDocumentRemoved() {},
     dispose() {}
   };
@@ -0,0 +1,50 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDocument, CompletionList, CompletionItem, CompletionItemKind, Range } from 'vscode-languageserver-types';
+import { ExternalSource } from '../embeddedSupport';
+import { resolveFsPath } from '../../utils/paths';
+
+const extensionsByType: { [type: string]: string[] } = {
+  script: ['.js', '.jsx', '.ts', '.tsx'],
+  style: ['.css', '.scss', '.sass', '.less', '.styl', '.stylus', '.pcss', '.postcss']
+};
+
+/**
+ * Directories and files of the block's type in the directory typed so far in a `src` attribute
+ */
+export function doSrcComplete(document: TextDocument, source: ExternalSource, offset: number): CompletionList {
+  const typed = source.src.slice(0, offset - source.start);
+  const dir = typed.slice(0, typed.lastIndexOf('/') + 1);
+  let names: string[];
+  try {
+    names = fs.readdirSync(resolveFsPath(document.uri, dir || '.'));
+  } catch (e) {
+    return { isIncomplete: false, items: [] };
+  }
+
+  // the typed path segment is replaced up to its end
+  const segmentEnd = source.src.indexOf('/', typed.length);
+  const range = Range.create(
+    document.positionAt(source.start + dir.length),
+    document.positionAt(segmentEnd === -1 ? source.end : source.start + segmentEnd)
+  );
+  const items: CompletionItem[] = [];
+  for (const name of names) {
+    if (name === 'node_modules' || name.startsWith('.')) {
+      continue;
+    }
+    let isDirectory: boolean;
+    try {
+      isDirectory = fs.statSync(resolveFsPath(document.uri, dir + name)).isDirectory();
+    } catch (e) {
+      // dangling symlink
+      continue;
+    }
+    if (isDirectory) {
+      items.push({ label: name + '/', kind: CompletionItemKind.Folder, textEdit: { range, newText: name + '/' } });
+    } else if (extensionsByType[source.type].includes(path.extname(name).toLowerCase())) {
+      items.push({ label: name, kind: CompletionItemKind.File, textEdit: { range, newText: name } });
+    }
+  }
+  return { isIncomplete: false, items };
+}
@@ -13,22 +13,32 @@ import {
   Location,
   TextEdit,
   Hover,
-  Range
+  Range,
+  WorkspaceEdit,
+  Command,
+  CodeActionContext
 } from 'vscode-languageserver-types';
 import {
   Color, ColorInformation, ColorPresentation
 } from 'vscode-languageserver-protocol/lib/protocol.colorProvider.proposed';
 
-import { getLanguageModes, LanguageModes } from '../modes/languageModes';
+import { getLanguageModes, LanguageModes, RefactorArgs, FileRename } from '../modes/languageModes';
 import { NULL_HOVER, NULL_COMPLETION, NULL_SIGNATURE } from '../modes/nullMode';
 import { format } from './formatting';
+import { findWorkspaceSymbols } from './workspaceSymbols';
+import { getFileFsPath } from '../utils/paths';
+import * as path from 'path';
+import * as _ from 'lodash';
 
 export interface DocumentContext {
   resolveReference(ref: string, base?: string): string;
 }
 
 export interface VLS {
-  initialize(workspacePath: string | null | undefined): void;
+  initialize(workspacePaths: string[]): void;
+  addWorkspaceFolder(workspacePath: string): void;
+  removeWorkspaceFolder(workspacePath: string): void;
+  getWorkspacePath(doc: TextDocument): string | undefined;
   configure(config: any): void;
   format(doc: TextDocument, range: Range, formattingOptions: FormattingOptions): TextEdit[];
   validate(doc: TextDocument): Diagnostic[];
@@ -38,53 +48,119 @@ export interface VLS {
   doSignatureHelp(doc: TextDocument, position: Position): SignatureHelp;
   findDocumentHighlight(doc: TextDocument, position: Position): DocumentHighlight[];
   findDocumentSymbols(doc: TextDocument): SymbolInformation[];
+  findWorkspaceSymbols(query: string): SymbolInformation[];
   findDocumentLinks(doc: TextDocument, documentContext: DocumentContext): DocumentLink[];
   findDefinition(doc: TextDocument, position: Position): Definition;
   findReferences(doc: TextDocument, position: Position): Location[];
+  prepareRename(doc: TextDocument, position: Position): Range | null;
+  doRename(doc: TextDocument, position: Position, newName: string): WorkspaceEdit;
+  getCodeActions(doc: TextDocument, range: Range, context: CodeActionContext): Command[];
+  getRefactorEdits(doc: TextDocument, args: RefactorArgs): WorkspaceEdit;
+  organizeImports(doc: TextDocument): WorkspaceEdit;
+  getFileRenameEdits(renames: FileRename[], openDocuments: TextDocument[]): WorkspaceEdit;
   findDocumentColors(doc: TextDocument): ColorInformation[];
   getColorPresentations(doc: TextDocument, color: Color, range: Range): ColorPresentation[];
+  onDidChangeProject(listener: () => void): void;
   removeDocument(doc: TextDocument): void;
   dispose(): void;
 }
 
 export function getVls(): VLS {
-  let languageModes: LanguageModes;
+  // language modes of each workspace folder, by its path
+  const workspaceModes = new Map<string, LanguageModes>();
+  // language modes for documents when no folder is open
+  let defaultModes: LanguageModes | undefined;
+  let currentConfig: any;
+  const projectListeners: Array<() => void> = [];
   const validation: { [k: string]: boolean } = {
     'vue-html': true,
+    pug: true,
     html: true,
     css: true,
     scss: true,
     less: true,
     postcss: true,
+    stylus: true,
     javascript: true
   };
 
+  function createLanguageModes(workspacePath: string | null) {
+    const languageModes = getLanguageModes(workspacePath);
+    if (currentConfig) {
+      configureModes(languageModes, currentConfig);
+    }
+    languageModes.onDidChangeProject(() => projectListeners.forEach(listener => listener()));
+    return languageModes;
+  }
+
+  // the innermost folder containing the document, or the first folder for documents outside all of them
+  function getWorkspacePath(doc: TextDocument) {
+    const fileFsPath = getFileFsPath(doc.uri);
+    const workspacePaths = [...workspaceModes.keys()];
+    const containingPaths = workspacePaths.filter(p => {
+      const relative = path.relative(p, fileFsPath);
+      return !relative.startsWith('..') && !path.isAbsolute(relative);
+    });
+    return _.maxBy(containingPaths, p => p.length) || workspacePaths[0];
+  }
+
+  function getDocumentModes(doc: TextDocument): LanguageModes {
+    const workspacePath = getWorkspacePath(doc);
+    return workspacePath ? workspaceModes.get(workspacePath)! : getDefaultModes();
+  }
+
+  function getDefaultModes() {
+    if (!defaultModes) {
+      defaultModes = createLanguageModes(null);
+    }
+    return defaultModes;
+  }
+
+  function addWorkspaceFolder(workspacePath: string) {
+    if (!workspaceModes.has(workspacePath)) {
+      workspaceModes.set(workspacePath, createLanguageModes(workspacePath));
+    }
+  }
+
+  function getAllLanguageModes() {
+    const all = [...workspaceModes.values()];
+    return defaultModes ? all.concat(defaultModes) : all;
+  }
+
   return {
-    initialize(workspacePath) {
-      languageModes = getLanguageModes(workspacePath);
+    initialize(workspacePaths) {
+      workspacePaths.forEach(addWorkspaceFolder);
     },
+    addWorkspaceFolder,
+    removeWorkspaceFolder(workspacePath) {
+      const languageModes = workspaceModes.get(workspacePath);
+      if (languageModes) {
+        languageModes.dispose();
+        workspaceModes.delete(workspacePath);
+      }
+    },
+    getWorkspacePath,
     configure(config) {
       const veturValidationOptions = config.vetur.validation;
       validation['vue-html'] = veturValidationOptions.template;
+      validation.pug = veturValidationOptions.template;
       validation.css = veturValidationOptions.style;
       validation.postcss = veturValidationOptions.style;
       validation.scss = veturValidationOptions.style;
       validation.less = veturValidationOptions.style;
+      validation.stylus = veturValidationOptions.style;
       validation.javascript = veturValidationOptions.script;
 
-      languageModes.getAllModes().forEach(m => {
-        if (m.configure) {
-          m.configure(config);
-        }
-      });
+      currentConfig = config;
+      getAllLanguageModes().forEach(languageModes => configureModes(languageModes, config));
     },
     format(doc, range, formattingOptions) {
-      return format(languageModes, doc, range, formattingOptions);
+      return format(getDocumentModes(doc), doc, range, formattingOptions);
     },
     validate(doc) {
       const diagnostics: Diagnostic[] = [];
       if (doc.languageId === 'vue') {
-        languageModes.getAllModesInDocument(doc).forEach(mode => {
+        getDocumentModes(doc).getAllModesInDocument(doc).forEach(mode => {
           if (mode.doValidation && validation[mode.getId()]) {
             pushAll(diagnostics, mode.doValidation(doc));
           }
@@ -93,7 +169,7 @@ export function getVls(): VLS {
       return diagnostics;
     },
     doComplete(doc, position) {
-      const mode = languageModes.getModeAtPosition(doc, position);
+      const mode = getDocumentModes(doc).getModeAtPosition(doc, position);
       if (mode) {
         if (mode.doComplete) {
           return mode.doComplete(doc, position);
@@ -102,43 +178,57 @@ export function getVls(): VLS {
       return NULL_COMPLETION;
     },
     doResolve(doc, languageId, item) {
-      const mode = languageModes.getMode(languageId);
-      if (mode && mode.doResolve && doc) {
+      const mode = doc && getDocumentModes(doc).getMode(languageId);
+      if (mode && mode.doResolve) {
         return mode.doResolve(doc, item);
       }
       return item;
     },
     doHover(doc, position) {
-      const mode = languageModes.getModeAtPosition(doc, position);
+      const mode = getDocumentModes(doc).getModeAtPosition(doc, position);
       if (mode && mode.doHover) {
         return mode.doHover(doc, position);
       }
       return NULL_HOVER;
     },
     findDocumentHighlight(doc, position) {
-      const mode = languageModes.getModeAtPosition(doc, position);
+      const mode = getDocumentModes(doc).getModeAtPosition(doc, position);
       if (mode && mode.findDocumentHighlight) {
         return mode.findDocumentHighlight(doc, position);
       }
       return [];
     },
     findDefinition(doc, position) {
-      const mode = languageModes.getModeAtPosition(doc, position);
+      const mode = getDocumentModes(doc).getModeAtPosition(doc, position);
       if (mode && mode.findDefinition) {
         return mode.findDefinition(doc, position);
       }
       return [];
     },
     findReferences(doc, position) {
-      const mode = languageModes.getModeAtPosition(doc, position);
+      const mode = getDocumentModes(doc).getModeAtPosition(doc, position);
       if (mode && mode.findReferences) {
         return mode.findReferences(doc, position);
       }
       return [];
     },
+    prepareRename(doc, position) {
+      const mode = getDocumentModes(doc).getModeAtPosition(doc, position);
+      if (mode && mode.prepareRename) {
+        return mode.prepareRename(doc, position);
+      }
+      return null;
+    },
+    doRename(doc, position, newName) {
+      const mode = getDocumentModes(doc).getModeAtPosition(doc, position);
+      if (mode && mode.doRename) {
+        return mode.doRename(doc, position, newName);
+      }
+      return { changes: {} };
+    },
     findDocumentLinks(doc, documentContext) {
       const links: DocumentLink[] = [];
-      languageModes.getAllModesInDocument(doc).forEach(m => {
+      getDocumentModes(doc).getAllModesInDocument(doc).forEach(m => {
         if (m.findDocumentLinks) {
           pushAll(links, m.findDocumentLinks(doc, documentContext));
         }
@@ -147,16 +237,56 @@ export function getVls(): VLS {
     },
     findDocumentSymbols(doc) {
       const symbols: SymbolInformation[] = [];
-      languageModes.getAllModesInDocument(doc).forEach(m => {
+      getDocumentModes(doc).getAllModesInDocument(doc).forEach(m => {
         if (m.findDocumentSymbols) {
           pushAll(symbols, m.findDocumentSymbols(doc));
         }
       });
       return symbols;
     },
+    getCodeActions(doc, range, context) {
+      const mode = getDocumentModes(doc).getModeAtPosition(doc, range.start);
+      if (mode && mode.getCodeActions) {
+        return mode.getCodeActions(doc, range, context);
+      }
+      return [];
+    },
+    getRefactorEdits(doc, args) {
+      const mode = getDocumentModes(doc).getModeAtPosition(doc, args.range.start);
+      if (mode && mode.getRefactorEdits) {
+        return mode.getRefactorEdits(doc, args);
+      }
+      return { changes: {} };
+    },
+    organizeImports(doc) {
+      const mode = getDocumentModes(doc).getAllModesInDocument(doc).find(m => !!m.organizeImports);
+      return mode ? mode.organizeImports!(doc) : { changes: {} };
+    },
+    getFileRenameEdits(renames, openDocuments) {
+      const changes: { [uri: string]: TextEdit[] } = {};
+      workspaceModes.forEach(languageModes => {
+        _.uniq(languageModes.getAllModes()).forEach(m => {
+          if (m.getFileRenameEdits) {
+            _.forEach(m.getFileRenameEdits(renames, openDocuments).changes, (edits, uri) => {
+              // nested folders edit the same files, so identical edits are kept once
+              changes[uri] = _.uniqWith((changes[uri] || []).concat(edits), _.isEqual);
+            });
+          }
+        });
+      });
+      return { changes };
+    },
+    findWorkspaceSymbols(query) {
+      if (!workspaceModes.size) {
+        return findWorkspaceSymbols(getDefaultModes(), null, query);
+      }
+      return _.flatMap([...workspaceModes], ([workspacePath, languageModes]) =>
+        findWorkspaceSymbols(languageModes, workspacePath, query)
+      );
+    },
     findDocumentColors(doc) {
       const colors: ColorInformation[] = [];
-      languageModes.getAllModesInDocument(doc).forEach(m => {
+      getDocumentModes(doc).getAllModesInDocument(doc).forEach(m => {
         if (m.findDocumentColors) {
           pushAll(colors, m.findDocumentColors(doc));
         }
@@ -164,28 +294,39 @@ export function getVls(): VLS {
       return colors;
     },
     getColorPresentations(doc, color, range) {
-      const mode = languageModes.getModeAtPosition(doc, range.start);
+      const mode = getDocumentModes(doc).getModeAtPosition(doc, range.start);
       if (mode && mode.getColorPresentations) {
         return mode.getColorPresentations(doc, color, range);
       }
       return [];
     },
     doSignatureHelp(doc, position) {
-      const mode = languageModes.getModeAtPosition(doc, position);
+      const mode = getDocumentModes(doc).getModeAtPosition(doc, position);
       if (mode && mode.doSignatureHelp) {
         return mode.doSignatureHelp(doc, position);
       }
       return NULL_SIGNATURE;
     },
+    onDidChangeProject(listener) {
+      projectListeners.push(listener);
+    },
     removeDocument(doc) {
-      languageModes.onDocumentRemoved(doc);
+      getDocumentModes(doc).onDocumentRemoved(doc);
     },
     dispose() {
-      languageModes.dispose();
+      getAllLanguageModes().forEach(languageModes => languageModes.dispose());
     }
   };
 }
 
+function configureModes(languageModes: LanguageModes, config: any) {
+  languageModes.getAllModes().forEach(m => {
+    if (m.configure) {
+      m.configure(config);
+    }
+  });
+}
+
 function pushAll<T>(to: T[], from: T[]) {
   if (from) {
     for (let i = 0; i < from.length; i++) {
@@ -0,0 +1,159 @@
+import { TextDocument, SymbolInformation } from 'vscode-languageserver-types';
+import { LanguageModes, LanguageMode } from '../modes/languageModes';
+import { getLanguageModelCache } from '../modes/languageModelCache';
+import { getDocumentRegions } from '../modes/embeddedSupport';
+import { getCSSMode, getSCSSMode, getLESSMode, getPostCSSMode } from '../modes/style';
+import { getStylusMode } from '../modes/style/stylus';
+import { getSassMode } from '../modes/style/sass';
+import { matchesQuery } from '../utils/strings';
+import { resolveFsPath } from '../utils/paths';
+import Uri from 'vscode-uri';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as _ from 'lodash';
+
+const classSelectorRE = /\.-?[_a-zA-Z][\w-]*/;
+
+// class selectors of .vue files, read again only when the file or a stylesheet of its `<style src>` changes
+const selectorCache = new Map<string, { mtimes: Map<string, number>; symbols: SymbolInformation[] }>();
+
+// .vue files of each workspace, listed again after the watcher reports an added or deleted file
+const vueFileLists = new WeakMap<LanguageModes, { files?: string[] }>();
+
+/**
+ * Symbols matching `query` in the whole workspace: the ones provided by language modes,
+ * such as script symbols and component names, and class selectors in `<style>` of every .vue file
+ */
+export function findWorkspaceSymbols(
+  languageModes: LanguageModes,
+  workspacePath: string | null | undefined,
+  query: string
+): SymbolInformation[] {
+  const symbols: SymbolInformation[] = [];
+  // the script mode serves several languages
+  _.uniq(languageModes.getAllModes()).forEach(m => {
+    if (m.findWorkspaceSymbols) {
+      symbols.push(...m.findWorkspaceSymbols(query));
+    }
+  });
+  if (!workspacePath) {
+    return symbols;
+  }
+  const styleModes = createStyleModes();
+  try {
+    for (const fileName of getVueFiles(languageModes, workspacePath)) {
+      const selectors = getClassSelectors(styleModes, fileName);
+      symbols.push(...selectors.filter(s => matchesQuery(s.name, query)));
+    }
+  } finally {
+    styleModes.dispose();
+  }
+  return symbols;
+}
+
+/**
+ * Style modes of their own for files read from disk, so that the caches of open documents are left alone
+ */
+function createStyleModes() {
+  const documentRegions = getLanguageModelCache(10, 0, document => getDocumentRegions(document));
+  const modes: { [languageId: string]: LanguageMode } = {
+    css: getCSSMode(documentRegions),
+    postcss: getPostCSSMode(documentRegions),
+    scss: getSCSSMode(documentRegions),
+    less: getLESSMode(documentRegions),
+    stylus: getStylusMode(documentRegions),
+    sass: getSassMode(documentRegions)
+  };
+  return {
+    getModesInDocument(document: TextDocument) {
+      return documentRegions
+        .get(document)
+        .getLanguagesInDocument()
+        .filter(languageId => !!modes[languageId])
+        .map(languageId => modes[languageId]);
+    },
+    dispose() {
+      documentRegions.dispose();
+      _.forEach(modes, m => m.dispose());
+    }
+  };
+}
+
+function getClassSelectors(styleModes: ReturnType<typeof createStyleModes>, fileName: string): SymbolInformation[] {
+  const cached = selectorCache.get(fileName);
+  if (cached && Array.from(cached.mtimes).every(([name, mtime]) => getMtime(name) === mtime)) {
+    return cached.symbols;
+  }
+  let text: string;
+  try {
+    text = fs.readFileSync(fileName, 'utf-8');
+  } catch (e) {
+    // deleted since the files were listed
+    return [];
+  }
+  const doc = TextDocument.create(Uri.file(fileName).toString(), 'vue', 0, text);
+  const symbols: SymbolInformation[] = [];
+  styleModes.getModesInDocument(doc).forEach(m => {
+    if (m.findDocumentSymbols) {
+      symbols.push(...m.findDocumentSymbols(doc).filter(s => !/^[$@]/.test(s.name) && classSelectorRE.test(s.name)));
+    }
+  });
+  const stylesheets = getDocumentRegions(doc)
+    .getExternalSources()
+    .filter(s => s.type === 'style')
+    .map(s => resolveFsPath(doc.uri, s.src));
+  const mtimes = new Map([fileName, ...stylesheets].map(name => [name, getMtime(name)] as [string, number]));
+  selectorCache.set(fileName, { mtimes, symbols });
+  return symbols;
+}
+
+function getMtime(fileName: string) {
+  try {
+    return fs.statSync(fileName).mtime.getTime();
+  } catch (e) {
+    return 0;
+  }
+}
+
+function getVueFiles(languageModes: LanguageModes, workspacePath: string) {
+  let list = vueFileLists.get(languageModes);
+  if (!list) {
+    const newList: { files?: string[] } = {};
+    languageModes.onDidAddOrRemoveFiles(() => (newList.files = undefined));
+    vueFileLists.set(languageModes, newList);
+    list = newList;
+  }
+  if (!list.files) {
+    list.files = findVueFiles(workspacePath);
+  }
+  return list.files;
+}
+
+function findVueFiles(dir: string): string[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir);
+  } catch (e) {
+    return [];
+  }
+  const files: string[] = [];
+  for (const name of names) {
+    if (name === 'node_modules' || name.startsWith('.')) {
+      continue;
+    }
+    const fileName = path.join(dir, name);
+    let isDirectory: boolean;
+    try {
+      isDirectory = fs.statSync(fileName).isDirectory();
+    } catch (e) {
+      // dangling symlink
+      continue;
+    }
+    if (isDirectory) {
+      files.push(...findVueFiles(fileName));
+    } else if (path.extname(name) === '.vue') {
+      files.push(fileName);
+    }
+  }
+  return files;
+}
@@ -24,3 +24,19 @@ declare module 'eslint' {
 declare module 'eslint-plugin-vue';
 declare module 'parse-gitignore';
 declare module '*.json';
+declare module 'pug-lexer' {
+  namespace lex {
+    interface Position {
+      line: number;
+      column: number;
+    }
+    interface Token {
+      type: string;
+      loc: { start: Position; end: Position };
+      val?: any;
+      name?: string;
+    }
+  }
+  function lex(str: string, options?: { filename?: string }): lex.Token[];
+  export = lex;
+}
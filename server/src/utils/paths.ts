@@ -1,4 +1,5 @@
 import { platform } from 'os';
+import * as path from 'path';
 import Uri from 'vscode-uri';
 
 export function getFileFsPath(documentUri: string): string {
@@ -14,3 +15,10 @@ export function getFilePath(documentUri: string): string {
     return Uri.parse(documentUri).path;
   }
 }
+
+/**
+ * Absolute path of a file referenced by a path relative to a document, e.g. in `src` attributes
+ */
+export function resolveFsPath(documentUri: string, relativePath: string): string {
+  return path.resolve(path.dirname(getFileFsPath(documentUri)), relativePath);
+}
@@ -27,6 +27,32 @@ export function removeQuotes(str: string) {
   return str.replace(/["']/g, '');
 }
 
+const hyphenateRE = /\B([A-Z])/g;
+export function hyphenate(word: string) {
+  return word.replace(hyphenateRE, '-$1').toLowerCase();
+}
+
+const camelizeRE = /-(\w)/g;
+export function camelize(word: string) {
+  return word.replace(camelizeRE, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Whether all characters of `query` appear in `word` in order, ignoring case
+ */
+export function matchesQuery(word: string, query: string) {
+  const lowerWord = word.toLowerCase();
+  let index = 0;
+  for (const ch of query.toLowerCase()) {
+    index = lowerWord.indexOf(ch, index);
+    if (index === -1) {
+      return false;
+    }
+    index++;
+  }
+  return true;
+}
+
 const CR = '\r'.charCodeAt(0);
 const NL = '\n'.charCodeAt(0);
 function isNewlineCharacter(charCode: number) {
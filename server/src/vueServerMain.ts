@@ -2,17 +2,51 @@ import {
   createConnection,
   TextDocuments,
   InitializeParams,
-  InitializeResult
+  InitializeResult,
+  RequestType,
+  TextDocumentPositionParams,
+  ServerCapabilities
 } from 'vscode-languageserver';
-import { TextDocument, Diagnostic, Range, Position } from 'vscode-languageserver-types';
+import { TextDocument, Diagnostic, Range, Position, WorkspaceEdit } from 'vscode-languageserver-types';
 import {
-  DocumentColorRequest, ColorPresentationRequest
+  DocumentColorRequest, ColorPresentationRequest, ServerCapabilities as ColorServerCapabilities
 } from 'vscode-languageserver-protocol/lib/protocol.colorProvider.proposed';
+import {
+  WorkspaceFoldersInitializeParams, DidChangeWorkspaceFoldersNotification
+} from 'vscode-languageserver-protocol/lib/protocol.workspaceFolders.proposed';
 import Uri from 'vscode-uri';
 import { DocumentContext, getVls } from './service';
+import {
+  APPLY_WORKSPACE_EDIT,
+  APPLY_REFACTOR,
+  ORGANIZE_IMPORTS,
+  RefactorArgs,
+  FileRename
+} from './modes/languageModes';
 import * as url from 'url';
 import * as path from 'path';
 
+// `textDocument/prepareRename` is not in vscode-languageserver 3.5 yet
+const prepareRenameRequest = new RequestType<TextDocumentPositionParams, Range | null, void, void>(
+  'textDocument/prepareRename'
+);
+
+// `workspace/willRenameFiles` is not in vscode-languageserver 3.5 yet
+const willRenameFilesRequest = new RequestType<{ files: FileRename[] }, WorkspaceEdit | null, void, void>(
+  'workspace/willRenameFiles'
+);
+
+// prepare rename, workspace folder changes and `workspace/willRenameFiles` capabilities are not in
+// vscode-languageserver 3.5 yet
+type VueServerCapabilities = Pick<ServerCapabilities, Exclude<keyof ServerCapabilities, 'renameProvider'>> &
+  ColorServerCapabilities & {
+    renameProvider: { prepareProvider: boolean };
+    workspace: {
+      workspaceFolders: { supported: boolean; changeNotifications: boolean };
+      fileOperations: { willRename: { filters: { pattern: { glob: string } }[] } };
+    };
+  };
+
 // Create a connection for the server
 const connection =
   process.argv.length <= 2
@@ -29,18 +63,31 @@ const documents = new TextDocuments();
 // for open, change and close text document events
 documents.listen(connection);
 
-let workspacePath: string | null | undefined;
 let config: any = {};
 const vls = getVls();
+// whether the client takes the folder change notification by dynamic registration rather than by capability
+let registersWorkspaceFolders = false;
 
 // After the server has started the client sends an initilize request. The server receives
-// in the passed params the rootPath of the workspace plus the client capabilites
+// in the passed params the workspace folders, or the rootPath of the workspace, plus the client capabilites
 connection.onInitialize((params: InitializeParams): InitializeResult => {
   console.log('vetur initialized');
   const initializationOptions = params.initializationOptions;
 
-  workspacePath = params.rootPath;
-  vls.initialize(workspacePath);
+  const { workspaceFolders } = params as InitializeParams & Partial<WorkspaceFoldersInitializeParams>;
+  if (workspaceFolders) {
+    vls.initialize(workspaceFolders.map(f => Uri.parse(f.uri).fsPath));
+  } else {
+    vls.initialize(params.rootPath ? [params.rootPath] : []);
+  }
+
+  // no client capability covers registering folder changes yet, so the one of configuration changes stands in
+  const workspaceCapabilities = params.capabilities.workspace;
+  registersWorkspaceFolders = !!(
+    workspaceCapabilities &&
+    workspaceCapabilities.didChangeConfiguration &&
+    workspaceCapabilities.didChangeConfiguration.dynamicRegistration
+  );
 
   documents.onDidClose(e => {
     vls.removeDocument(e.document);
@@ -52,7 +99,7 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
   if (initializationOptions) {
     config = initializationOptions.config;
   }
-  const capabilities = {
+  const capabilities: VueServerCapabilities = {
     // Tell the client that the server works in FULL text document sync mode
     textDocumentSync: documents.syncKind,
     completionProvider: { resolveProvider: true, triggerCharacters: ['.', ':', '<', '"', '\'', '/', '@', '*'] },
@@ -61,14 +108,36 @@ connection.onInitialize((params: InitializeParams): InitializeResult => {
     hoverProvider: true,
     documentHighlightProvider: true,
     documentSymbolProvider: true,
+    workspaceSymbolProvider: true,
     definitionProvider: true,
     referencesProvider: true,
-    colorProvider: true
+    renameProvider: { prepareProvider: true },
+    codeActionProvider: true,
+    executeCommandProvider: { commands: [APPLY_WORKSPACE_EDIT, APPLY_REFACTOR, ORGANIZE_IMPORTS] },
+    colorProvider: true,
+    workspace: {
+      workspaceFolders: { supported: true, changeNotifications: !registersWorkspaceFolders },
+      fileOperations: { willRename: { filters: [{ pattern: { glob: '**/*' } }] } }
+    }
   };
 
   return { capabilities };
 });
 
+connection.onInitialized(() => {
+  if (registersWorkspaceFolders) {
+    connection.client.register(DidChangeWorkspaceFoldersNotification.type).then(undefined, err => {
+      console.error('Failed to register for workspace folder changes: ' + err);
+    });
+  }
+});
+
+connection.onNotification(DidChangeWorkspaceFoldersNotification.type, ({ event }) => {
+  event.removed.forEach(f => vls.removeWorkspaceFolder(Uri.parse(f.uri).fsPath));
+  event.added.forEach(f => vls.addWorkspaceFolder(Uri.parse(f.uri).fsPath));
+  documents.all().forEach(triggerValidation);
+});
+
 // The settings have changed. Is send on server activation as well.
 connection.onDidChangeConfiguration(change => {
   config = change.settings;
@@ -78,6 +147,11 @@ connection.onDidChangeConfiguration(change => {
   documents.all().forEach(triggerValidation);
 });
 
+// A tsconfig.json, jsconfig.json or package.json has changed, and the projects are created again
+vls.onDidChangeProject(() => {
+  documents.all().forEach(triggerValidation);
+});
+
 const pendingValidationRequests: { [uri: string]: NodeJS.Timer } = {};
 const validationDelayMs = 200;
 
@@ -147,11 +221,48 @@ connection.onReferences(referenceParams => {
   return vls.findReferences(document, referenceParams.position);
 });
 
+connection.onRequest(prepareRenameRequest, params => {
+  const document = documents.get(params.textDocument.uri);
+  return vls.prepareRename(document, params.position);
+});
+
+connection.onRequest(willRenameFilesRequest, params => {
+  return vls.getFileRenameEdits(params.files, documents.all());
+});
+
+connection.onRenameRequest(renameParams => {
+  const document = documents.get(renameParams.textDocument.uri);
+  return vls.doRename(document, renameParams.position, renameParams.newName);
+});
+
 connection.onSignatureHelp(signatureHelpParms => {
   const document = documents.get(signatureHelpParms.textDocument.uri);
   return vls.doSignatureHelp(document, signatureHelpParms.position);
 });
 
+connection.onCodeAction(codeActionParams => {
+  const document = documents.get(codeActionParams.textDocument.uri);
+  return vls.getCodeActions(document, codeActionParams.range, codeActionParams.context);
+});
+
+connection.onExecuteCommand(executeCommandParams => {
+  const args = executeCommandParams.arguments || [];
+  if (executeCommandParams.command === APPLY_WORKSPACE_EDIT) {
+    connection.workspace.applyEdit(args[0]);
+  } else if (executeCommandParams.command === APPLY_REFACTOR) {
+    const refactorArgs: RefactorArgs = args[0];
+    const document = documents.get(refactorArgs.uri);
+    if (document) {
+      connection.workspace.applyEdit(vls.getRefactorEdits(document, refactorArgs));
+    }
+  } else if (executeCommandParams.command === ORGANIZE_IMPORTS) {
+    const document = documents.get(args[0]);
+    if (document) {
+      connection.workspace.applyEdit(vls.organizeImports(document));
+    }
+  }
+});
+
 connection.onDocumentFormatting(formatParams => {
   const document = documents.get(formatParams.textDocument.uri);
   const fullDocRange = Range.create(Position.create(0, 0), document.positionAt(document.getText().length));
@@ -160,6 +271,7 @@ connection.onDocumentFormatting(formatParams => {
 
 connection.onDocumentLinks(documentLinkParam => {
   const document = documents.get(documentLinkParam.textDocument.uri);
+  const workspacePath = vls.getWorkspacePath(document);
   const documentContext: DocumentContext = {
     resolveReference: ref => {
       if (workspacePath && ref[0] === '/') {
@@ -176,6 +288,10 @@ connection.onDocumentSymbol(documentSymbolParms => {
   return vls.findDocumentSymbols(document);
 });
 
+connection.onWorkspaceSymbol(workspaceSymbolParams => {
+  return vls.findWorkspaceSymbols(workspaceSymbolParams.query);
+});
+
 connection.onRequest(DocumentColorRequest.type, params => {
   const document = documents.get(params.textDocument.uri);
   if (document) {
@@ -0,0 +1,17 @@
+import Vue from 'vue';
+import GlobalCard from './GlobalCard.vue';
+
+Vue.component('GlobalCard', GlobalCard);
+Vue.component('inline-badge', {
+  props: ['count']
+});
+
+const requireComponent = require.context('./components', false, /Base[A-Z]\w+\.vue$/);
+requireComponent.keys().forEach(fileName => {
+  const config = requireComponent(fileName);
+  const name = fileName.replace(/^\.\//, '').replace(/\.vue$/, '');
+  Vue.component(name, config.default || config);
+});
+
+const icons = require.context('./other', false);
+icons.keys().forEach(icons);
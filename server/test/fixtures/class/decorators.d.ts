@@ -0,0 +1,10 @@
+// A subset of vue-property-decorator declarations for the class component fixtures
+import Vue from 'vue';
+
+export { Vue };
+export declare function Component<C extends Function>(target: C): C;
+export declare function Component(options: any): ClassDecorator;
+export declare function Prop(options?: any): PropertyDecorator;
+export declare function PropSync(propName: string, options?: any): PropertyDecorator;
+export declare function Model(event?: string, options?: any): PropertyDecorator;
+export declare function Emit(event?: string): MethodDecorator;
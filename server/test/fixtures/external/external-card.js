@@ -0,0 +1,14 @@
+import CompLabel from '../component/comp.vue';
+
+export default {
+  name: 'ExternalCard',
+  components: { CompLabel },
+  props: {
+    title: String
+  },
+  data() {
+    return {
+      expanded: false
+    };
+  }
+};
@@ -0,0 +1,6 @@
+declare const selection: {
+  methods: {
+    clearSelection(): boolean;
+  };
+};
+export default selection;